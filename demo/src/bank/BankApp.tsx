@@ -13,14 +13,14 @@
  *    (InsufficientFunds, AccountNotFound 등 타입 안전한 에러)
  *
  * 4. 다형성 — 같은 인터페이스, 다른 구현
- *    (Standard vs Premium FeePolicy를 Layer 교체만으로 전환)
+ *    (Standard vs Premium FeePolicy를 override로 핫스왑 — 잔액/거래 내역 유지)
  *
  * 5. effect-react 훅 — React와 Effect의 자연스러운 통합
  *    (useEffectStateAsync, useRunEffect, useEffectCallback)
  */
 import * as React from "react"
 import { EffectProvider } from "effect-react"
-import { StandardBankLayer, PremiumBankLayer } from "./services"
+import { StandardBankLayer, PremiumFeeOverride } from "./services"
 import { AccountDashboard } from "./components/AccountDashboard"
 import { TransactionForm } from "./components/TransactionForm"
 import { TransactionHistory } from "./components/TransactionHistory"
@@ -31,15 +31,12 @@ export function BankApp() {
     string | null
   >("acc-1")
   const [isPremium, setIsPremium] = React.useState(false)
-  const [refreshKey, setRefreshKey] = React.useState(0)
 
-  const refresh = () => setRefreshKey((k) => k + 1)
-
-  // 다형성: Layer만 교체하면 전체 수수료 정책이 바뀜
-  const bankLayer = isPremium ? PremiumBankLayer : StandardBankLayer
+  // 다형성: FeePolicy만 핫스왑 — 저장소 인스턴스는 그대로라 잔액이 초기화되지 않음
+  const feeOverride = isPremium ? PremiumFeeOverride : undefined
 
   return (
-    <EffectProvider layer={bankLayer}>
+    <EffectProvider layer={StandardBankLayer} override={feeOverride}>
       <div style={containerStyle}>
         {/* Header */}
         <div style={headerStyle}>
@@ -86,24 +83,17 @@ export function BankApp() {
             <AccountDashboard
               onSelectAccount={setSelectedAccountId}
               selectedAccountId={selectedAccountId}
-              refreshKey={refreshKey}
             />
           </div>
 
           {/* Right column: Transaction + History */}
           <div style={{ display: "flex", flexDirection: "column", gap: 16 }}>
             <div style={panelStyle}>
-              <TransactionForm
-                selectedAccountId={selectedAccountId}
-                onComplete={refresh}
-              />
+              <TransactionForm selectedAccountId={selectedAccountId} />
             </div>
 
             <div style={panelStyle}>
-              <TransactionHistory
-                accountId={selectedAccountId}
-                refreshKey={refreshKey}
-              />
+              <TransactionHistory accountId={selectedAccountId} />
             </div>
           </div>
         </div>
@@ -127,8 +117,8 @@ export function BankApp() {
           />
           <FeatureCard
             title="Polymorphism"
-            description="Toggle Premium to swap FeePolicy - same interface, different Layer"
-            code="StandardFeePolicyLive (1% fee) vs PremiumFeePolicyLive (no fee) - just swap the Layer"
+            description="Toggle Premium to hot-swap FeePolicy - same interface, balances kept"
+            code="<EffectProvider layer={StandardBankLayer} override={PremiumFeeOverride}> - StandardFeePolicyLive (1% fee) vs PremiumFeePolicyLive (no fee)"
           />
         </div>
       </div>
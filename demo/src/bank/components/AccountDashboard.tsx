@@ -2,31 +2,37 @@
  * AccountDashboard — 계좌 목록 + 잔액 표시
  *
  * 시연하는 effect-react 기능:
- * - useRunEffect: 계좌 목록을 로드하고, refreshKey 변경 시 자동 재실행
+ * - useRunEffect: 계좌 목록을 key ["accounts"]로 캐시하고, invalidate 시 자동 재실행
+ * - refetch: 10초마다 백그라운드 재조회 — 기존 잔액은 그대로 보이고 isRefreshing만 표시
  * - EffectResult 패턴 매칭: Loading / Success / Failure 상태 처리
  */
 import { useRunEffect } from "effect-react"
-import { Effect } from "effect"
+import { Effect, Schedule } from "effect"
 import { BankService, formatKRW, type Account } from "../services"
 
 export function AccountDashboard({
   onSelectAccount,
   selectedAccountId,
-  refreshKey,
 }: {
   onSelectAccount: (id: string) => void
   selectedAccountId: string | null
-  refreshKey: number
 }) {
-  // useRunEffect: deps가 바뀌면 자동으로 Effect 재실행
+  // useRunEffect: 같은 key를 쓰는 컴포넌트끼리 결과를 공유하고, invalidate되면 재실행
   const accountsResult = useRunEffect(
     Effect.flatMap(BankService, (s) => s.getAccounts),
-    { deps: [refreshKey] },
+    { key: ["accounts"], refetch: Schedule.spaced("10 seconds") },
   )
 
   return (
     <div>
-      <h3 style={{ margin: "0 0 12px", fontSize: 16 }}>My Accounts</h3>
+      <h3 style={{ margin: "0 0 12px", fontSize: 16 }}>
+        My Accounts
+        {accountsResult._tag === "Success" && accountsResult.isRefreshing && (
+          <span style={{ marginLeft: 8, fontSize: 12, fontWeight: 400, color: "#a0aec0" }}>
+            refreshing…
+          </span>
+        )}
+      </h3>
 
       {accountsResult._tag === "Loading" && (
         <p style={{ color: "#888" }}>Loading accounts...</p>
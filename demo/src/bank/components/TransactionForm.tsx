@@ -2,111 +2,149 @@
  * TransactionForm — 입금 / 출금 / 이체 폼
  *
  * 시연하는 effect-react 기능:
- * - useEffectCallback: 버튼 클릭 시 Effect 수동 실행
- * - useEffectStateAsync: 계좌 목록 로드 (이체 대상 선택용)
+ * - useEffectForm: Schema로 입력값 디코딩 + 필드별 에러 + 제출 (useEffectCallback 기반)
+ * - useInvalidate: 성공 시 ["accounts"], ["tx"] 캐시를 무효화해 잔액/내역 자동 갱신
+ * - optimistic: 이체 즉시 대시보드 잔액을 옮기고, 실패(InsufficientFundsError 등) 시 자동 롤백
+ * - useRunEffect + key ["accounts"]: 대시보드와 같은 key로 계좌 목록을 공유 — 두 컴포넌트가 fiber 하나를 함께 사용
  * - 타입 안전한 에러 처리: Effect.catchTag로 에러별 분기 처리
  *
  * 시연하는 Effect 기능:
- * - pipe: 검증 → 실행 → 에러 처리 체이닝
+ * - Schema: 문자열 입력 → 양의 정수 금액으로 디코딩
+ * - Schema.filterEffect: BankService.getAccount로 이체 대상 계좌 존재 여부를 비동기 검증
  * - Effect.catchTag: 특정 에러 타입만 선별 처리
  */
 import { useState } from "react"
-import { useEffectCallback, useEffectStateAsync } from "effect-react"
-import { Effect, pipe } from "effect"
+import { useEffectForm, useInvalidate, useRunEffect, type OptimisticUpdate } from "effect-react"
+import { Effect, ParseResult, Schema, pipe } from "effect"
 import { BankService, formatKRW, type Account } from "../services"
-import type { BankError } from "../errors"
 
 type TxType = "deposit" | "withdrawal" | "transfer"
 
+// 입력값은 문자열 그대로 두고, 제출 시 Schema가 숫자로 디코딩
+const Amount = Schema.NumberFromString.pipe(
+  Schema.int({ message: () => "Please enter a valid amount" }),
+  Schema.positive({ message: () => "Please enter a valid amount" }),
+)
+
+// 이체 대상: 선택 여부 + 실제 존재하는 계좌인지 BankService로 검증 (Provider 런타임에서 실행)
+const TargetAccountId = Schema.String.pipe(
+  Schema.filter((id) => id !== "" || "Select destination"),
+  Schema.filterEffect((id) =>
+    Effect.flatMap(BankService, (bank) => bank.getAccount(id)).pipe(
+      Effect.as(true),
+      Effect.catchTag("AccountNotFoundError", (e) =>
+        Effect.succeed(`Account not found: ${e.accountId}`),
+      ),
+    ),
+  ),
+)
+
+interface TxInput {
+  readonly amount: number
+  readonly targetId: string
+}
+
+interface TxFields {
+  readonly amount: string
+  readonly targetId: string
+}
+
+// 이체일 때만 대상 계좌를 검증
+const DepositOrWithdrawal: Schema.Schema<TxInput, TxFields, BankService> = Schema.Struct({
+  amount: Amount,
+  targetId: Schema.String,
+})
+const Transfer: Schema.Schema<TxInput, TxFields, BankService> = Schema.Struct({
+  amount: Amount,
+  targetId: TargetAccountId,
+})
+
+// 이체 결과를 미리 반영: 출금 계좌에서 빼고 입금 계좌에 더함 (수수료는 재조회 시 반영)
+const moveBalance = (fromId: string, toId: string, amount: number): OptimisticUpdate<ReadonlyArray<Account>> => ({
+  key: ["accounts"],
+  update: (accounts) =>
+    accounts.map((account) =>
+      account.id === fromId
+        ? { ...account, balance: account.balance - amount }
+        : account.id === toId
+          ? { ...account, balance: account.balance + amount }
+          : account,
+    ),
+})
+
 export function TransactionForm({
   selectedAccountId,
-  onComplete,
 }: {
   selectedAccountId: string | null
-  onComplete: () => void
 }) {
   const [txType, setTxType] = useState<TxType>("deposit")
-  const [amount, setAmount] = useState("")
-  const [targetAccountId, setTargetAccountId] = useState("")
-  const [message, setMessage] = useState<{
-    type: "success" | "error"
-    text: string
-  } | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
 
-  // 계좌 목록 (이체 대상 선택용)
-  const [accountsResult] = useEffectStateAsync(
+  // 계좌 목록 (이체 대상 선택용) — AccountDashboard와 같은 key라 getAccounts는 한 번만 실행
+  const accountsResult = useRunEffect(
     Effect.flatMap(BankService, (s) => s.getAccounts),
+    { key: ["accounts"] },
   )
 
-  // useEffectCallback: 트랜잭션 실행을 수동으로 트리거
-  const executeTransaction = useEffectCallback(
-    (params: { type: TxType; accountId: string; amount: number; targetId: string }) =>
+  const invalidate = useInvalidate()
+
+  // useEffectForm: 디코딩된 값으로만 트랜잭션 실행
+  const form = useEffectForm(txType === "transfer" ? Transfer : DepositOrWithdrawal, {
+    initialValues: { amount: "", targetId: "" },
+    onSubmit: ({ amount, targetId }) =>
       pipe(
         Effect.flatMap(BankService, (bank) => {
-          switch (params.type) {
+          const accountId = selectedAccountId ?? ""
+          switch (txType) {
             case "deposit":
               return Effect.map(
-                bank.deposit(params.accountId, params.amount),
-                (acc) =>
-                  `${acc.name}에 ${formatKRW(params.amount)} 입금 완료`,
+                bank.deposit(accountId, amount),
+                (acc) => `${acc.name}에 ${formatKRW(amount)} 입금 완료`,
               )
             case "withdrawal":
               return Effect.map(
-                bank.withdraw(params.accountId, params.amount),
-                (acc) =>
-                  `${acc.name}에서 ${formatKRW(params.amount)} 출금 완료`,
+                bank.withdraw(accountId, amount),
+                (acc) => `${acc.name}에서 ${formatKRW(amount)} 출금 완료`,
               )
             case "transfer":
               return Effect.map(
-                bank.transfer(params.accountId, params.targetId, params.amount),
-                () =>
-                  `${formatKRW(params.amount)} 이체 완료`,
+                bank.transfer(accountId, targetId, amount),
+                () => `${formatKRW(amount)} 이체 완료`,
               )
           }
         }),
         // 타입 안전한 에러 처리 — 에러 타입별 사용자 메시지
-        Effect.catchTag("InsufficientFundsError", (e) =>
-          Effect.fail(
-            `Insufficient funds: balance is ${formatKRW(e.balance)}, requested ${formatKRW(e.requested)}` as const,
-          ),
-        ),
-        Effect.catchTag("AccountNotFoundError", (e) =>
-          Effect.fail(`Account not found: ${e.accountId}` as const),
-        ),
-        Effect.catchTag("InvalidAmountError", (e) =>
-          Effect.fail(`Invalid amount: ${e.reason}` as const),
-        ),
-        Effect.catchTag("TransferError", (e) =>
-          Effect.fail(`Transfer failed: ${e.reason}` as const),
-        ),
-      ) as Effect.Effect<string, string, BankService>,
-  )
-
-  const handleSubmit = () => {
-    if (!selectedAccountId) return
-    const parsedAmount = parseInt(amount.replace(/,/g, ""), 10)
-    if (isNaN(parsedAmount)) {
-      setMessage({ type: "error", text: "Please enter a valid amount" })
-      return
-    }
-
-    setMessage(null)
-    executeTransaction.run({
-      type: txType,
-      accountId: selectedAccountId,
-      amount: parsedAmount,
-      targetId: targetAccountId,
-    })
-  }
+        Effect.catchTags({
+          InsufficientFundsError: (e) =>
+            Effect.fail(
+              `Insufficient funds: balance is ${formatKRW(e.balance)}, requested ${formatKRW(e.requested)}`,
+            ),
+          AccountNotFoundError: (e) => Effect.fail(`Account not found: ${e.accountId}`),
+          InvalidAmountError: (e) => Effect.fail(`Invalid amount: ${e.reason}`),
+          TransferError: (e) => Effect.fail(`Transfer failed: ${e.reason}`),
+        }),
+      ),
+    // 이체는 서버 응답 전에 대시보드 잔액을 옮겨 보여주고, 실패하면 원래 잔액으로 롤백
+    optimistic: ({ amount, targetId }) =>
+      txType === "transfer" && selectedAccountId
+        ? [moveBalance(selectedAccountId, targetId, amount)]
+        : [],
+    // 성공 시 계좌 목록과 거래 내역을 구독 중인 모든 컴포넌트가 재실행 + 입력값 초기화
+    // (제출은 기본적으로 "exhaust" — 더블클릭 시 두 번째 클릭은 무시)
+    onSuccess: (text) => {
+      invalidate(["accounts"])
+      invalidate(["tx"])
+      setMessage(text)
+      form.reset()
+    },
+  })
 
-  // Effect 결과를 메시지로 반영
-  const result = executeTransaction.result
-  const displayMessage =
-    result._tag === "Success"
-      ? { type: "success" as const, text: result.value }
-      : result._tag === "Failure"
-        ? { type: "error" as const, text: String(result.error) }
-        : message
+  // 입력 검증 실패(ParseError)는 필드 아래에 표시 — 여기서는 거래 실패만 표시
+  const result = form.result
+  const errorMessage =
+    result._tag === "Failure" && !ParseResult.isParseError(result.error)
+      ? String(result.error)
+      : null
 
   const otherAccounts =
     accountsResult._tag === "Success"
@@ -115,14 +153,11 @@ export function TransactionForm({
         )
       : []
 
-  // 성공 시 상위 컴포넌트에 알림
-  if (result._tag === "Success" && message?.type !== "success") {
-    setTimeout(() => {
-      setMessage({ type: "success", text: result.value })
-      setAmount("")
-      onComplete()
-    }, 0)
-  }
+  const displayMessage = errorMessage
+    ? { type: "error" as const, text: errorMessage }
+    : message
+      ? { type: "success" as const, text: message }
+      : null
 
   if (!selectedAccountId) {
     return (
@@ -144,7 +179,7 @@ export function TransactionForm({
             onClick={() => {
               setTxType(type)
               setMessage(null)
-              executeTransaction.reset()
+              form.reset()
             }}
             style={{
               ...tabStyle,
@@ -170,8 +205,8 @@ export function TransactionForm({
             To Account
           </label>
           <select
-            value={targetAccountId}
-            onChange={(e) => setTargetAccountId(e.target.value)}
+            value={form.values.targetId}
+            onChange={(e) => form.setValue("targetId", e.target.value)}
             style={inputStyle}
           >
             <option value="">Select destination</option>
@@ -181,6 +216,7 @@ export function TransactionForm({
               </option>
             ))}
           </select>
+          {form.errors.targetId && <div style={fieldErrorStyle}>{form.errors.targetId}</div>}
         </div>
       )}
 
@@ -193,34 +229,29 @@ export function TransactionForm({
         </label>
         <input
           type="text"
-          value={amount}
-          onChange={(e) => setAmount(e.target.value.replace(/[^0-9]/g, ""))}
+          value={form.values.amount}
+          onChange={(e) => form.setValue("amount", e.target.value.replace(/[^0-9]/g, ""))}
           placeholder="e.g. 100000"
           style={inputStyle}
           data-testid="amount-input"
         />
+        {form.errors.amount && <div style={fieldErrorStyle}>{form.errors.amount}</div>}
       </div>
 
       {/* 실행 버튼 */}
       <button
-        onClick={handleSubmit}
-        disabled={
-          executeTransaction.isLoading ||
-          !amount ||
-          (txType === "transfer" && !targetAccountId)
-        }
+        onClick={() => {
+          setMessage(null)
+          form.submit()
+        }}
+        disabled={form.isSubmitting || !form.isValid}
         style={{
           ...submitBtnStyle,
-          opacity:
-            executeTransaction.isLoading ||
-            !amount ||
-            (txType === "transfer" && !targetAccountId)
-              ? 0.5
-              : 1,
+          opacity: form.isSubmitting || !form.isValid ? 0.5 : 1,
         }}
         data-testid="submit-tx"
       >
-        {executeTransaction.isLoading
+        {form.isSubmitting
           ? "Processing..."
           : txType === "deposit"
             ? "Deposit"
@@ -272,6 +303,12 @@ const inputStyle: React.CSSProperties = {
   fontFamily: "inherit",
 }
 
+const fieldErrorStyle: React.CSSProperties = {
+  marginTop: 4,
+  fontSize: 12,
+  color: "#9b2c2c",
+}
+
 const submitBtnStyle: React.CSSProperties = {
   width: "100%",
   padding: 12,
@@ -3,7 +3,8 @@
  *
  * 시연하는 effect-react 기능:
  * - useRunEffect: 선택된 계좌가 바뀔 때 자동으로 거래 내역 재로드
- * - deps 배열: refreshKey가 바뀌면 자동 재실행 (React의 useEffect처럼)
+ * - key: ["tx", accountId]로 캐시 — 거래가 끝나면 invalidate(["tx"])로 자동 재실행
+ * - keepPreviousData: 계좌를 바꿔도 목록이 비지 않고, 새 내역이 올 때까지 이전 내역을 흐리게 표시
  *
  * 시연하는 Effect 기능:
  * - pipe: 서비스 조회 → 데이터 변환 체이닝
@@ -14,19 +15,20 @@ import { BankService, formatKRW, type Transaction } from "../services"
 
 export function TransactionHistory({
   accountId,
-  refreshKey,
 }: {
   accountId: string | null
-  refreshKey: number
 }) {
-  // useRunEffect: deps가 바뀔 때마다 자동으로 Effect 재실행
+  // useRunEffect: key가 바뀌거나 invalidate되면 자동으로 Effect 재실행
   const txResult = useRunEffect(
     accountId
       ? Effect.flatMap(BankService, (s) => s.getTransactions(accountId))
       : Effect.succeed([] as readonly Transaction[]),
-    { deps: [accountId, refreshKey] },
+    { key: ["tx", accountId], keepPreviousData: true },
   )
 
+  // 이전 계좌의 내역(previousDeps가 있는 결과)은 새 내역이 도착할 때까지 흐리게
+  const isStale = txResult._tag === "Success" && txResult.previousDeps !== undefined
+
   if (!accountId) {
     return (
       <div style={{ padding: 16, color: "#718096", textAlign: "center" }}>
@@ -50,7 +52,15 @@ export function TransactionHistory({
       )}
 
       {txResult._tag === "Success" && txResult.value.length > 0 && (
-        <div style={{ display: "flex", flexDirection: "column", gap: 6 }}>
+        <div
+          style={{
+            display: "flex",
+            flexDirection: "column",
+            gap: 6,
+            opacity: isStale ? 0.5 : 1,
+            transition: "opacity 0.15s",
+          }}
+        >
           {txResult.value.map((tx: Transaction) => (
             <div key={tx.id} style={txRowStyle}>
               <div style={{ display: "flex", alignItems: "center", gap: 8 }}>
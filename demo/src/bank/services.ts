@@ -364,17 +364,20 @@ const BaseRepositories = Layer.mergeAll(
 
 /**
  * Standard 등급 — 수수료 있음
+ * 저장소(AccountRepository, TransactionRepository)도 함께 노출해
+ * PremiumFeeOverride가 살아 있는 저장소 인스턴스를 재사용할 수 있게 함
  */
 export const StandardBankLayer = BankServiceLive.pipe(
-  Layer.provide(Layer.mergeAll(BaseRepositories, StandardFeePolicyLive)),
+  Layer.provideMerge(Layer.mergeAll(BaseRepositories, StandardFeePolicyLive)),
 )
 
 /**
  * Premium 등급 — 수수료 무료
- * → Layer만 교체하면 전체 동작이 바뀜 (다형성 + DI의 힘)
+ * 실행 중인 StandardBankLayer 위에 덮어쓰는 Layer (다형성 + DI의 힘):
+ * FeePolicy와 이를 사용하는 BankService만 다시 만들고, 저장소 인스턴스(잔액/거래 내역)는 유지
  */
-export const PremiumBankLayer = BankServiceLive.pipe(
-  Layer.provide(Layer.mergeAll(BaseRepositories, PremiumFeePolicyLive)),
+export const PremiumFeeOverride = BankServiceLive.pipe(
+  Layer.provideMerge(PremiumFeePolicyLive),
 )
 
 // ─── Utility ───
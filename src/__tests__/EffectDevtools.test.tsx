@@ -0,0 +1,107 @@
+import { describe, it, expect } from "vitest"
+import { render, screen, act, within } from "@testing-library/react"
+import * as React from "react"
+import { Context, Effect, Layer } from "effect"
+import { EffectProvider } from "../providers/EffectProvider.js"
+import { EffectDevtools, devtools } from "../devtools.js"
+import { useRunEffect } from "../hooks/useRunEffect.js"
+
+class Greeter extends Context.Tag("Greeter")<Greeter, { readonly greet: string }>() {}
+
+const GreeterLive = Layer.succeed(Greeter, { greet: "hello" })
+
+describe("EffectDevtools", () => {
+  it("lists a provider's services, live fibers and recent exits", async () => {
+    function Pending() {
+      useRunEffect(Effect.never, { spanName: "Accounts.load" })
+      return null
+    }
+
+    function Broken() {
+      useRunEffect(Effect.fail("boom"))
+      return null
+    }
+
+    const { container } = render(
+      <>
+        <EffectProvider layer={GreeterLive} devtools={devtools}>
+          <Pending />
+          <Broken />
+        </EffectProvider>
+        <EffectDevtools />
+      </>,
+    )
+
+    await act(async () => {
+      await new Promise((r) => setTimeout(r, 50))
+    })
+
+    const panel = within(container.querySelector("details") as HTMLElement)
+    expect(panel.getByText(/Services: .*Greeter/)).toBeTruthy()
+
+    const [live, exits] = container.querySelectorAll("table")
+    const liveRow = within(live!).getByText("Accounts.load").closest("tr") as HTMLElement
+    expect(within(liveRow).getByText("useRunEffect")).toBeTruthy()
+    expect(within(liveRow).getByText("Suspended")).toBeTruthy()
+
+    const exitRow = within(exits!).getByText("Failure").closest("tr") as HTMLElement
+    expect(exitRow.textContent).toContain("useRunEffect")
+    expect(exitRow.textContent).toContain("boom")
+  })
+
+  it("only lists providers given devtools", async () => {
+    render(
+      <>
+        <EffectProvider layer={GreeterLive}>
+          <span />
+        </EffectProvider>
+        <EffectDevtools />
+      </>,
+    )
+
+    await act(async () => {
+      await new Promise((r) => setTimeout(r, 50))
+    })
+
+    expect(screen.getByText("No EffectProvider is mounted.")).toBeTruthy()
+  })
+
+  it("records interrupted fibers and drops unmounted providers", async () => {
+    function Pending() {
+      useRunEffect(Effect.never)
+      return null
+    }
+
+    function App({ mounted }: { mounted: boolean }) {
+      return (
+        <>
+          <EffectProvider layer={Layer.empty} devtools={devtools}>{mounted && <Pending />}</EffectProvider>
+          <EffectDevtools />
+        </>
+      )
+    }
+
+    const { container, rerender } = render(<App mounted />)
+
+    await act(async () => {
+      await new Promise((r) => setTimeout(r, 50))
+    })
+
+    rerender(<App mounted={false} />)
+
+    await act(async () => {
+      await new Promise((r) => setTimeout(r, 50))
+    })
+
+    const exits = container.querySelectorAll("table")[1]!
+    expect(within(exits).getByText("Interrupted")).toBeTruthy()
+
+    rerender(<EffectDevtools />)
+
+    await act(async () => {
+      await new Promise((r) => setTimeout(r, 50))
+    })
+
+    expect(screen.getByText("No EffectProvider is mounted.")).toBeTruthy()
+  })
+})
@@ -0,0 +1,310 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest"
+import { render, screen, act, fireEvent } from "@testing-library/react"
+import * as React from "react"
+import { Cause, Data, Effect, Layer } from "effect"
+import { EffectProvider } from "../providers/EffectProvider.js"
+import { EffectErrorBoundary } from "../components/EffectErrorBoundary.js"
+import { useRunEffect } from "../hooks/useRunEffect.js"
+import { useRunEffectSuspense } from "../hooks/useRunEffectSuspense.js"
+import { useEffectCallback } from "../hooks/useEffectCallback.js"
+
+const TestLayer = Layer.empty
+
+class InsufficientFundsError extends Data.TaggedError("InsufficientFundsError")<{
+  readonly balance: number
+}> {}
+
+class AccountNotFoundError extends Data.TaggedError("AccountNotFoundError")<{
+  readonly accountId: string
+}> {}
+
+type BankError = InsufficientFundsError | AccountNotFoundError
+
+// React logs every caught render error — keep test output readable.
+const originalError = console.error
+beforeEach(() => {
+  console.error = () => {}
+})
+afterEach(() => {
+  console.error = originalError
+})
+
+describe("EffectErrorBoundary", () => {
+  it("renders the fallback with the Cause of a typed failure", async () => {
+    function Test() {
+      useRunEffect(Effect.fail("boom"), { throwOnFailure: true })
+      return <div>ok</div>
+    }
+
+    render(
+      <EffectProvider layer={TestLayer}>
+        <EffectErrorBoundary<string>
+          fallback={({ cause }) => (
+            <div data-testid="fallback">{Cause.isFailType(cause) ? cause.error : "other"}</div>
+          )}
+        >
+          <Test />
+        </EffectErrorBoundary>
+      </EffectProvider>,
+    )
+
+    await act(async () => {
+      await new Promise((r) => setTimeout(r, 50))
+    })
+
+    expect(screen.getByTestId("fallback").textContent).toBe("boom")
+  })
+
+  it("catches defects from Effect.die", async () => {
+    function Test() {
+      useRunEffect(Effect.die(new Error("kaboom")), { throwOnFailure: true })
+      return <div>ok</div>
+    }
+
+    render(
+      <EffectProvider layer={TestLayer}>
+        <EffectErrorBoundary
+          fallback={({ cause }) => (
+            <div data-testid="fallback">
+              {Cause.isDie(cause) ? String(Cause.squash(cause)) : "other"}
+            </div>
+          )}
+        >
+          <Test />
+        </EffectErrorBoundary>
+      </EffectProvider>,
+    )
+
+    await act(async () => {
+      await new Promise((r) => setTimeout(r, 50))
+    })
+
+    expect(screen.getByTestId("fallback").textContent).toBe("Error: kaboom")
+  })
+
+  it("turns plain thrown errors into defects", () => {
+    function Test(): React.ReactElement {
+      throw new Error("render error")
+    }
+
+    render(
+      <EffectErrorBoundary
+        fallback={({ cause }) => (
+          <div data-testid="fallback">{Cause.isDie(cause) ? "defect" : "failure"}</div>
+        )}
+      >
+        <Test />
+      </EffectErrorBoundary>,
+    )
+
+    expect(screen.getByTestId("fallback").textContent).toBe("defect")
+  })
+
+  it("matches tagged failures with catchTags", async () => {
+    function Test({ error }: { error: BankError }) {
+      useRunEffect(Effect.fail(error), { throwOnFailure: true })
+      return <div>ok</div>
+    }
+
+    function App({ error }: { error: BankError }) {
+      return (
+        <EffectProvider layer={TestLayer}>
+          <EffectErrorBoundary<BankError>
+            catchTags={{
+              InsufficientFundsError: (e) => (
+                <div data-testid="fallback">insufficient: {e.balance}</div>
+              ),
+            }}
+            fallback={() => <div data-testid="fallback">generic</div>}
+          >
+            <Test error={error} />
+          </EffectErrorBoundary>
+        </EffectProvider>
+      )
+    }
+
+    const { unmount } = render(<App error={new InsufficientFundsError({ balance: 100 })} />)
+
+    await act(async () => {
+      await new Promise((r) => setTimeout(r, 50))
+    })
+
+    expect(screen.getByTestId("fallback").textContent).toBe("insufficient: 100")
+
+    unmount()
+    render(<App error={new AccountNotFoundError({ accountId: "acc-9" })} />)
+
+    await act(async () => {
+      await new Promise((r) => setTimeout(r, 50))
+    })
+
+    expect(screen.getByTestId("fallback").textContent).toBe("generic")
+  })
+
+  it("reset() re-runs the failing effects", async () => {
+    let attempts = 0
+    const flaky = Effect.suspend(() =>
+      ++attempts === 1 ? Effect.fail("first attempt") : Effect.succeed("recovered"),
+    )
+
+    function Test() {
+      const result = useRunEffect(flaky, { throwOnFailure: true })
+      return (
+        <div data-testid="result">
+          {result._tag === "Success" ? result.value : result._tag}
+        </div>
+      )
+    }
+
+    render(
+      <EffectProvider layer={TestLayer}>
+        <EffectErrorBoundary
+          fallback={({ reset }) => (
+            <button data-testid="reset" onClick={reset}>
+              Retry
+            </button>
+          )}
+        >
+          <Test />
+        </EffectErrorBoundary>
+      </EffectProvider>,
+    )
+
+    await act(async () => {
+      await new Promise((r) => setTimeout(r, 50))
+    })
+
+    fireEvent.click(screen.getByTestId("reset"))
+
+    await act(async () => {
+      await new Promise((r) => setTimeout(r, 50))
+    })
+
+    expect(screen.getByTestId("result").textContent).toBe("recovered")
+    expect(attempts).toBe(2)
+  })
+
+  it("reset() re-runs a failed useRunEffectSuspense effect", async () => {
+    let attempts = 0
+    const flaky = Effect.suspend(() =>
+      ++attempts === 1 ? Effect.fail("first attempt") : Effect.succeed("recovered"),
+    ).pipe(Effect.delay(5))
+
+    function Test() {
+      const value = useRunEffectSuspense(flaky, { key: ["flaky"] })
+      return <div data-testid="result">{value}</div>
+    }
+
+    render(
+      <EffectProvider layer={TestLayer}>
+        <EffectErrorBoundary
+          fallback={({ reset }) => (
+            <button data-testid="reset" onClick={reset}>
+              Retry
+            </button>
+          )}
+        >
+          <React.Suspense fallback={<div data-testid="loading">loading</div>}>
+            <Test />
+          </React.Suspense>
+        </EffectErrorBoundary>
+      </EffectProvider>,
+    )
+
+    await act(async () => {
+      await new Promise((r) => setTimeout(r, 50))
+    })
+    expect(attempts).toBe(1)
+
+    fireEvent.click(screen.getByTestId("reset"))
+
+    await act(async () => {
+      await new Promise((r) => setTimeout(r, 50))
+    })
+
+    expect(screen.getByTestId("result").textContent).toBe("recovered")
+    expect(attempts).toBe(2)
+  })
+
+  it("reset() re-runs a failed keyed useRunEffect effect", async () => {
+    let attempts = 0
+    const flaky = Effect.suspend(() =>
+      ++attempts === 1 ? Effect.fail("first attempt") : Effect.succeed("recovered"),
+    )
+
+    function Test() {
+      const result = useRunEffect(flaky, { key: ["flaky-keyed"], throwOnFailure: true })
+      return (
+        <div data-testid="result">
+          {result._tag === "Success" ? result.value : result._tag}
+        </div>
+      )
+    }
+
+    render(
+      <EffectProvider layer={TestLayer}>
+        <EffectErrorBoundary
+          fallback={({ reset }) => (
+            <button data-testid="reset" onClick={reset}>
+              Retry
+            </button>
+          )}
+        >
+          <Test />
+        </EffectErrorBoundary>
+      </EffectProvider>,
+    )
+
+    await act(async () => {
+      await new Promise((r) => setTimeout(r, 50))
+    })
+    expect(attempts).toBe(1)
+
+    fireEvent.click(screen.getByTestId("reset"))
+
+    await act(async () => {
+      await new Promise((r) => setTimeout(r, 50))
+    })
+
+    expect(screen.getByTestId("result").textContent).toBe("recovered")
+    expect(attempts).toBe(2)
+  })
+
+  it("catches useEffectCallback failures with throwOnFailure and reports them via onError", async () => {
+    const reported: Array<Cause.Cause<string>> = []
+
+    function Test() {
+      const { run } = useEffectCallback(
+        (msg: string) => Effect.fail(msg),
+        { throwOnFailure: true },
+      )
+      return (
+        <button data-testid="btn" onClick={() => run("oops")}>
+          Run
+        </button>
+      )
+    }
+
+    render(
+      <EffectProvider layer={TestLayer}>
+        <EffectErrorBoundary<string>
+          onError={(cause) => reported.push(cause)}
+          fallback={({ cause }) => (
+            <div data-testid="fallback">{String(Cause.squash(cause))}</div>
+          )}
+        >
+          <Test />
+        </EffectErrorBoundary>
+      </EffectProvider>,
+    )
+
+    fireEvent.click(screen.getByTestId("btn"))
+
+    await act(async () => {
+      await new Promise((r) => setTimeout(r, 50))
+    })
+
+    expect(screen.getByTestId("fallback").textContent).toBe("oops")
+    expect(reported).toHaveLength(1)
+  })
+})
@@ -1,7 +1,7 @@
 import { describe, it, expect } from "vitest"
-import { render, screen, act } from "@testing-library/react"
+import { render, screen, act, fireEvent } from "@testing-library/react"
 import * as React from "react"
-import { Effect, Layer, Context } from "effect"
+import { Cause, Effect, Layer, Context } from "effect"
 import { EffectProvider } from "../providers/EffectProvider.js"
 import { useRunEffect } from "../hooks/useRunEffect.js"
 import { useEffectRuntime } from "../hooks/useEffectRuntime.js"
@@ -572,4 +572,294 @@ describe("EffectProvider", () => {
     expect(rendersAfterToggle).toBeGreaterThanOrEqual(2)
     expect(effectsAfterToggle).toBeGreaterThanOrEqual(2)
   })
+
+  it("runs keyed effects again instead of reusing dehydrated values once the layer changes", async () => {
+    class Counter extends Context.Tag("Counter-hydrated")<Counter, { readonly value: number }>() {}
+    const L1 = Layer.succeed(Counter, { value: 1 })
+    const L2 = Layer.succeed(Counter, { value: 2 })
+    const dehydratedState = { entries: [{ key: ["count"], value: 0 }] }
+
+    function Count() {
+      const result = useRunEffect(Effect.map(Counter, (c) => c.value), { key: ["count"] })
+      return <div data-testid="count">{result._tag === "Success" ? String(result.value) : result._tag}</div>
+    }
+
+    function App({ layer }: { layer: Layer.Layer<Counter> }) {
+      return (
+        <EffectProvider layer={layer} dehydratedState={dehydratedState}>
+          <Count />
+        </EffectProvider>
+      )
+    }
+
+    const { rerender } = render(<App layer={L1} />)
+    expect(screen.getByTestId("count").textContent).toBe("0")
+
+    rerender(<App layer={L2} />)
+    await act(async () => {
+      await new Promise((r) => setTimeout(r, 50))
+    })
+
+    expect(screen.getByTestId("count").textContent).toBe("2")
+  })
+
+  it("renders fallback while an async layer builds, then the children", async () => {
+    class Config extends Context.Tag("Config")<Config, { readonly env: string }>() {}
+    const ConfigLive = Layer.effect(
+      Config,
+      Effect.delay(Effect.succeed({ env: "prod" }), "20 millis"),
+    )
+    const ready: Array<string> = []
+
+    function Child() {
+      const result = useRunEffect(Effect.map(Config, (c) => c.env))
+      return <div data-testid="env">{result._tag === "Success" ? result.value : result._tag}</div>
+    }
+
+    render(
+      <EffectProvider
+        layer={ConfigLive}
+        fallback={<div data-testid="fallback">Starting</div>}
+        onReady={(context) => ready.push(Context.get(context, Config).env)}
+      >
+        <Child />
+      </EffectProvider>,
+    )
+
+    expect(screen.getByTestId("fallback").textContent).toBe("Starting")
+    expect(screen.queryByTestId("env")).toBeNull()
+
+    await act(async () => {
+      await new Promise((r) => setTimeout(r, 60))
+    })
+
+    expect(screen.queryByTestId("fallback")).toBeNull()
+    expect(screen.getByTestId("env").textContent).toBe("prod")
+    expect(ready).toEqual(["prod"])
+  })
+
+  it("awaitLayer renders the children once an async layer is built", async () => {
+    class Config extends Context.Tag("Config-await")<Config, { readonly env: string }>() {}
+    const ConfigLive = Layer.effect(
+      Config,
+      Effect.delay(Effect.succeed({ env: "prod" }), "20 millis"),
+    )
+
+    function Child() {
+      const result = useRunEffect(Effect.map(Config, (c) => c.env))
+      return <div data-testid="env">{result._tag === "Success" ? result.value : result._tag}</div>
+    }
+
+    render(
+      <EffectProvider layer={ConfigLive} awaitLayer>
+        <Child />
+      </EffectProvider>,
+    )
+
+    expect(screen.queryByTestId("env")).toBeNull()
+
+    await act(async () => {
+      await new Promise((r) => setTimeout(r, 60))
+    })
+
+    expect(screen.getByTestId("env").textContent).toBe("prod")
+  })
+
+  it("renders children on the first render when an awaited layer is synchronous", () => {
+    render(
+      <EffectProvider layer={Layer.empty} fallback={<div data-testid="fallback" />}>
+        <div data-testid="child" />
+      </EffectProvider>,
+    )
+
+    expect(screen.queryByTestId("fallback")).toBeNull()
+    expect(screen.getByTestId("child")).toBeTruthy()
+  })
+
+  it("renders errorFallback when the layer fails, and retry rebuilds it", async () => {
+    class Db extends Context.Tag("Db")<Db, { readonly name: string }>() {}
+    let builds = 0
+    const DbLive = Layer.effect(
+      Db,
+      Effect.suspend(() => {
+        builds++
+        return builds === 1 ? Effect.fail("IndexedDB blocked") : Effect.succeed({ name: "app-db" })
+      }),
+    )
+
+    function Child() {
+      const result = useRunEffect(Effect.map(Db, (db) => db.name))
+      return <div data-testid="db">{result._tag === "Success" ? result.value : result._tag}</div>
+    }
+
+    render(
+      <EffectProvider
+        layer={DbLive}
+        errorFallback={(cause, retry) => (
+          <button data-testid="retry" onClick={retry}>
+            {String(Cause.squash(cause))}
+          </button>
+        )}
+      >
+        <Child />
+      </EffectProvider>,
+    )
+
+    expect(screen.getByTestId("retry").textContent).toBe("IndexedDB blocked")
+
+    fireEvent.click(screen.getByTestId("retry"))
+
+    await act(async () => {
+      await new Promise((r) => setTimeout(r, 50))
+    })
+
+    expect(screen.getByTestId("db").textContent).toBe("app-db")
+    expect(builds).toBe(2)
+  })
+
+  it("override swaps a service while keeping the other service instances", async () => {
+    class Repo extends Context.Tag("Repo")<Repo, { readonly items: Array<string> }>() {}
+    class Fee extends Context.Tag("Fee")<Fee, { readonly rate: number }>() {}
+    class Checkout extends Context.Tag("Checkout")<
+      Checkout,
+      { readonly quote: (amount: number) => Effect.Effect<number> }
+    >() {}
+
+    let repoBuilds = 0
+    const RepoLive = Layer.sync(Repo, () => {
+      repoBuilds++
+      return { items: [] }
+    })
+    const StandardFee = Layer.succeed(Fee, { rate: 0.1 })
+    const PremiumFee = Layer.succeed(Fee, { rate: 0 })
+    const CheckoutLive = Layer.effect(
+      Checkout,
+      Effect.map(Fee, (fee) => ({ quote: (amount: number) => Effect.succeed(amount + amount * fee.rate) })),
+    )
+    const AppLayer = CheckoutLive.pipe(Layer.provideMerge(Layer.merge(RepoLive, StandardFee)))
+    const PremiumOverride = CheckoutLive.pipe(Layer.provideMerge(PremiumFee))
+
+    function Quote() {
+      const quote = useRunEffect(Effect.flatMap(Checkout, (c) => c.quote(100)))
+      const items = useRunEffect(Effect.map(Repo, (r) => r.items.length))
+      return (
+        <div>
+          <span data-testid="quote">{quote._tag === "Success" ? String(quote.value) : quote._tag}</span>
+          <span data-testid="items">{items._tag === "Success" ? String(items.value) : items._tag}</span>
+        </div>
+      )
+    }
+
+    function AddItem() {
+      const runtime = useEffectRuntime<Repo>()
+      return (
+        <button
+          data-testid="add"
+          onClick={() => runtime.runSync(Effect.map(Repo, (r) => r.items.push("item")))}
+        >
+          Add
+        </button>
+      )
+    }
+
+    function App({ premium }: { premium: boolean }) {
+      return (
+        <EffectProvider layer={AppLayer} override={premium ? PremiumOverride : undefined}>
+          <Quote />
+          <AddItem />
+        </EffectProvider>
+      )
+    }
+
+    const { rerender } = render(<App premium={false} />)
+
+    await act(async () => {
+      await new Promise((r) => setTimeout(r, 50))
+    })
+    expect(screen.getByTestId("quote").textContent).toBe("110")
+
+    fireEvent.click(screen.getByTestId("add"))
+    rerender(<App premium={true} />)
+
+    await act(async () => {
+      await new Promise((r) => setTimeout(r, 50))
+    })
+
+    expect(screen.getByTestId("quote").textContent).toBe("100")
+    // Same Repo instance — the item added before the swap is still there
+    expect(screen.getByTestId("items").textContent).toBe("1")
+
+    rerender(<App premium={false} />)
+
+    await act(async () => {
+      await new Promise((r) => setTimeout(r, 50))
+    })
+
+    expect(screen.getByTestId("quote").textContent).toBe("110")
+    expect(screen.getByTestId("items").textContent).toBe("1")
+    expect(repoBuilds).toBe(1)
+  })
+
+  it("keeps keyed results on screen while an override swap refetches them", async () => {
+    class Fee extends Context.Tag("Fee-keyed")<Fee, { readonly rate: number }>() {}
+    const StandardFee = Layer.succeed(Fee, { rate: 0.1 })
+    const PremiumFee = Layer.succeed(Fee, { rate: 0 })
+
+    const seen: Array<string> = []
+    function Quote() {
+      const quote = useRunEffect(
+        Effect.flatMap(Fee, (fee) => Effect.as(Effect.sleep("10 millis"), 100 + 100 * fee.rate)),
+        { key: ["quote", 100] },
+      )
+      const text =
+        quote._tag === "Success" ? `${quote.value}${quote.isRefreshing ? " (refreshing)" : ""}` : quote._tag
+      seen.push(text)
+      return <span data-testid="quote">{text}</span>
+    }
+
+    function App({ premium }: { premium: boolean }) {
+      return (
+        <EffectProvider layer={StandardFee} override={premium ? PremiumFee : undefined}>
+          <Quote />
+        </EffectProvider>
+      )
+    }
+
+    const { rerender } = render(<App premium={false} />)
+    await act(async () => {
+      await new Promise((r) => setTimeout(r, 50))
+    })
+    expect(screen.getByTestId("quote").textContent).toBe("110")
+
+    seen.length = 0
+    rerender(<App premium={true} />)
+    expect(screen.getByTestId("quote").textContent).toBe("110 (refreshing)")
+
+    await act(async () => {
+      await new Promise((r) => setTimeout(r, 50))
+    })
+    expect(screen.getByTestId("quote").textContent).toBe("100")
+    expect(seen).not.toContain("Loading")
+  })
+
+  it("rejects overrides that provide services the layer does not", () => {
+    // The @ts-expect-error lines are the assertions — `npm run typecheck` checks them
+    class Fee extends Context.Tag("Fee-typed")<Fee, { readonly rate: number }>() {}
+    class Audit extends Context.Tag("Audit-typed")<Audit, { readonly entries: Array<string> }>() {}
+    const FeeLive = Layer.succeed(Fee, { rate: 0.1 })
+
+    const typed = (
+      <EffectProvider layer={FeeLive} override={Layer.succeed(Fee, { rate: 0 })}>
+        {null}
+      </EffectProvider>
+    )
+    const untyped = (
+      // @ts-expect-error — Audit is not provided by FeeLive
+      <EffectProvider layer={FeeLive} override={Layer.succeed(Audit, { entries: [] })}>
+        {null}
+      </EffectProvider>
+    )
+    expect(typed.props.override).toBeDefined()
+    expect(untyped.props.override).toBeDefined()
+  })
 })
@@ -0,0 +1,143 @@
+import { describe, it, expect } from "vitest"
+import { render, screen, act, fireEvent } from "@testing-library/react"
+import * as React from "react"
+import { Effect, FiberRef, HashMap, Layer, Logger, LogLevel } from "effect"
+import { EffectProvider } from "../providers/EffectProvider.js"
+import { EffectScope } from "../providers/EffectScope.js"
+import { useRunEffect } from "../hooks/useRunEffect.js"
+import { useEffectCallback } from "../hooks/useEffectCallback.js"
+import { useEffectRuntime } from "../hooks/useEffectRuntime.js"
+
+interface LogLine {
+  readonly message: unknown
+  readonly level: string
+  readonly annotations: Record<string, unknown>
+}
+
+function makeLogLayer() {
+  const lines: Array<LogLine> = []
+  const logger = Logger.make(({ message, logLevel, annotations }) => {
+    lines.push({
+      message: Array.isArray(message) ? message[0] : message,
+      level: logLevel.label,
+      annotations: Object.fromEntries(HashMap.toEntries(annotations)),
+    })
+  })
+  return { lines, layer: Logger.replace(Logger.defaultLogger, logger) }
+}
+
+describe("EffectScope", () => {
+  it("annotates logs of effects run in its subtree only", async () => {
+    const { lines, layer } = makeLogLayer()
+
+    function Log({ message }: { message: string }) {
+      useRunEffect(Effect.logInfo(message))
+      return null
+    }
+
+    render(
+      <EffectProvider layer={layer}>
+        <Log message="outside" />
+        <EffectScope annotations={{ screen: "transfer", requestId: "req-1" }}>
+          <Log message="inside" />
+        </EffectScope>
+      </EffectProvider>,
+    )
+
+    await act(async () => {
+      await new Promise((r) => setTimeout(r, 50))
+    })
+
+    expect(lines.find((line) => line.message === "outside")?.annotations).toEqual({})
+    expect(lines.find((line) => line.message === "inside")?.annotations).toEqual({
+      screen: "transfer",
+      requestId: "req-1",
+    })
+  })
+
+  it("merges nested annotations, the inner scope winning", async () => {
+    const { lines, layer } = makeLogLayer()
+
+    function Log() {
+      const { run } = useEffectCallback(() => Effect.logInfo("submit"))
+      return <button data-testid="submit" onClick={() => run()}>Submit</button>
+    }
+
+    render(
+      <EffectProvider layer={layer}>
+        <EffectScope annotations={{ screen: "transfer", section: "outer" }}>
+          <EffectScope annotations={{ section: "form" }}>
+            <Log />
+          </EffectScope>
+        </EffectScope>
+      </EffectProvider>,
+    )
+
+    fireEvent.click(screen.getByTestId("submit"))
+
+    await act(async () => {
+      await new Promise((r) => setTimeout(r, 50))
+    })
+
+    expect(lines.map((line) => line.annotations)).toEqual([{ screen: "transfer", section: "form" }])
+  })
+
+  it("applies the minimum log level", async () => {
+    const { lines, layer } = makeLogLayer()
+
+    function Log() {
+      useRunEffect(Effect.logDebug("details").pipe(Effect.zipRight(Effect.logWarning("careful"))))
+      return null
+    }
+
+    render(
+      <EffectProvider layer={layer}>
+        <EffectScope logLevel={LogLevel.Warning}>
+          <Log />
+        </EffectScope>
+      </EffectProvider>,
+    )
+
+    await act(async () => {
+      await new Promise((r) => setTimeout(r, 50))
+    })
+
+    expect(lines.map((line) => line.message)).toEqual(["careful"])
+  })
+
+  it("sets FiberRef values and keeps the runtime stable across renders", async () => {
+    const tenant = FiberRef.unsafeMake("none")
+    const runtimes = new Set<unknown>()
+
+    function Tenant() {
+      runtimes.add(useEffectRuntime())
+      const result = useRunEffect(FiberRef.get(tenant))
+      return (
+        <div data-testid="tenant">
+          {result._tag === "Success" ? result.value : result._tag}
+        </div>
+      )
+    }
+
+    function App({ label }: { label: string }) {
+      return (
+        <EffectProvider layer={Layer.empty}>
+          <EffectScope fiberRefs={[[tenant, "acme"]]} annotations={{ label }}>
+            <Tenant />
+          </EffectScope>
+        </EffectProvider>
+      )
+    }
+
+    const { rerender } = render(<App label="a" />)
+
+    await act(async () => {
+      await new Promise((r) => setTimeout(r, 50))
+    })
+
+    rerender(<App label="b" />)
+
+    expect(screen.getByTestId("tenant").textContent).toBe("acme")
+    expect(runtimes.size).toBe(1)
+  })
+})
@@ -0,0 +1,163 @@
+import { describe, it, expect } from "vitest"
+import { render, screen, act, fireEvent } from "@testing-library/react"
+import * as React from "react"
+import { Context, Effect, Layer } from "effect"
+import { createEffectReact } from "../createEffectReact.js"
+
+class Greeter extends Context.Tag("Greeter")<
+  Greeter,
+  { readonly greet: (name: string) => Effect.Effect<string> }
+>() {}
+
+class Audit extends Context.Tag("Audit")<
+  Audit,
+  { readonly entries: Array<string> }
+>() {}
+
+const GreeterLive = Layer.succeed(Greeter, {
+  greet: (name) => Effect.succeed(`Hello, ${name}`),
+})
+
+const App = createEffectReact(GreeterLive)
+
+describe("createEffectReact", () => {
+  it("provides the bound layer to its typed hooks", async () => {
+    function Greeting() {
+      const result = App.useRunEffect(Effect.flatMap(Greeter, (g) => g.greet("Alice")))
+      const greeter = App.useService(Greeter)
+      return (
+        <div>
+          <span data-testid="greeting">
+            {result._tag === "Success" ? result.value : result._tag}
+          </span>
+          <span data-testid="service">{greeter._tag}</span>
+        </div>
+      )
+    }
+
+    render(
+      <App.Provider>
+        <Greeting />
+      </App.Provider>,
+    )
+
+    await act(async () => {
+      await new Promise((r) => setTimeout(r, 50))
+    })
+
+    expect(screen.getByTestId("greeting").textContent).toBe("Hello, Alice")
+    expect(screen.getByTestId("service").textContent).toBe("Success")
+  })
+
+  it("rejects effects that need services the layer does not provide", () => {
+    // The @ts-expect-error lines are the assertions — `npm run typecheck` checks them
+    function Untyped() {
+      // @ts-expect-error — Audit is not provided by GreeterLive
+      App.useRunEffect(Effect.map(Audit, (a) => a.entries.length))
+      // @ts-expect-error — Audit is not provided by GreeterLive
+      App.useService(Audit)
+      return null
+    }
+    expect(Untyped).toBeTypeOf("function")
+  })
+
+  it("extends the parent's services in a nested provider", async () => {
+    const entries: Array<string> = []
+    const Admin = App.extend(Layer.succeed(Audit, { entries }))
+
+    function Log() {
+      const { run, result } = Admin.useEffectCallback((name: string) =>
+        Effect.gen(function* () {
+          const greeter = yield* Greeter
+          const audit = yield* Audit
+          const message = yield* greeter.greet(name)
+          audit.entries.push(message)
+          return audit.entries.length
+        }),
+      )
+      return (
+        <div>
+          <span data-testid="count">
+            {result._tag === "Success" ? String(result.value) : result._tag}
+          </span>
+          <button data-testid="log" onClick={() => run("Bob")}>Log</button>
+        </div>
+      )
+    }
+
+    render(
+      <App.Provider>
+        <Admin.Provider>
+          <Log />
+        </Admin.Provider>
+      </App.Provider>,
+    )
+
+    fireEvent.click(screen.getByTestId("log"))
+
+    await act(async () => {
+      await new Promise((r) => setTimeout(r, 50))
+    })
+
+    expect(screen.getByTestId("count").textContent).toBe("1")
+    expect(entries).toEqual(["Hello, Bob"])
+  })
+
+  it("builds a nested layer that requires the parent's services", async () => {
+    let builds = 0
+    const AuditLive = Layer.effect(
+      Audit,
+      Effect.gen(function* () {
+        builds++
+        const greeter = yield* Greeter
+        return { entries: [yield* greeter.greet("audit")] }
+      }),
+    )
+    const Admin = App.extend(AuditLive)
+
+    function Entries() {
+      const result = Admin.useRunEffect(
+        Effect.gen(function* () {
+          const greeter = yield* Greeter
+          const audit = yield* Audit
+          return [...audit.entries, yield* greeter.greet("Carol")].join(" / ")
+        }),
+      )
+      return <span data-testid="entries">{result._tag === "Success" ? result.value : result._tag}</span>
+    }
+
+    function Root({ tick }: { tick: number }) {
+      return (
+        <App.Provider>
+          <Admin.Provider>
+            <Entries />
+            <span data-testid="tick">{tick}</span>
+          </Admin.Provider>
+        </App.Provider>
+      )
+    }
+
+    const { rerender } = render(<Root tick={0} />)
+
+    await act(async () => {
+      await new Promise((r) => setTimeout(r, 50))
+    })
+    rerender(<Root tick={1} />)
+
+    expect(screen.getByTestId("entries").textContent).toBe("Hello, audit / Hello, Carol")
+    expect(builds).toBe(1)
+  })
+
+  it("passes provider props through to EffectProvider", async () => {
+    const ready: Array<boolean> = []
+
+    render(
+      <App.Provider onReady={(context) => ready.push(Context.getOption(context, Greeter)._tag === "Some")}>
+        <span data-testid="child">child</span>
+      </App.Provider>,
+    )
+
+    expect(screen.getByTestId("child").textContent).toBe("child")
+    expect(ready).toEqual([true])
+  })
+})
@@ -0,0 +1,155 @@
+// @vitest-environment node
+import { describe, it, expect } from "vitest"
+import * as React from "react"
+import { renderToString } from "react-dom/server"
+import { Context, Effect, Layer, Option, Schema } from "effect"
+import { renderToStringWithEffects } from "../server.js"
+import { EffectProvider } from "../providers/EffectProvider.js"
+import { useRunEffect } from "../hooks/useRunEffect.js"
+
+class Greeter extends Context.Tag("Greeter")<
+  Greeter,
+  { readonly greet: (name: string) => Effect.Effect<string> }
+>() {}
+
+const GreeterLive = Layer.succeed(Greeter, {
+  greet: (name) => Effect.succeed(`Hello, ${name}`).pipe(Effect.delay("5 millis")),
+})
+
+describe("renderToStringWithEffects", () => {
+  it("renders keyed effects with their results", async () => {
+    function Greeting() {
+      const result = useRunEffect(
+        Effect.flatMap(Greeter, (g) => g.greet("Alice")),
+        { key: ["greeting", "Alice"] },
+      )
+      return <p>{result._tag === "Success" ? result.value : result._tag}</p>
+    }
+
+    const { html, dehydratedState } = await renderToStringWithEffects(<Greeting />, {
+      layer: GreeterLive,
+    })
+
+    expect(html).toBe("<p>Hello, Alice</p>")
+    expect(dehydratedState.entries).toEqual([
+      { key: ["greeting", "Alice"], value: "Hello, Alice" },
+    ])
+  })
+
+  it("renders again for effects that depend on earlier results", async () => {
+    function Name({ id }: { id: string }) {
+      const result = useRunEffect(Effect.succeed(id.toUpperCase()).pipe(Effect.delay("5 millis")), {
+        key: ["name", id],
+      })
+      return <span>{result._tag === "Success" ? result.value : result._tag}</span>
+    }
+
+    function Ids() {
+      const result = useRunEffect(Effect.succeed(["a", "b"]).pipe(Effect.delay("5 millis")), {
+        key: ["ids"],
+      })
+      if (result._tag !== "Success") return <span>{result._tag}</span>
+      return <>{result.value.map((id) => <Name key={id} id={id} />)}</>
+    }
+
+    const { html } = await renderToStringWithEffects(<Ids />, { layer: Layer.empty })
+
+    expect(html).toBe("<span>A</span><span>B</span>")
+  })
+
+  it("stops after maxPasses", async () => {
+    function Chain({ depth }: { depth: number }) {
+      const result = useRunEffect(Effect.succeed(depth).pipe(Effect.delay("1 millis")), {
+        key: ["chain", depth],
+      })
+      if (result._tag !== "Success") return <i>{result._tag}</i>
+      return <Chain depth={depth + 1} />
+    }
+
+    const { html } = await renderToStringWithEffects(<Chain depth={0} />, {
+      layer: Layer.empty,
+      maxPasses: 3,
+    })
+
+    expect(html).toBe("<i>Loading</i>")
+  })
+
+  it("leaves failed effects out of the dehydrated state", async () => {
+    function Broken() {
+      const result = useRunEffect(Effect.fail("nope"), { key: ["broken"] })
+      return <p>{result._tag}</p>
+    }
+
+    const { html, dehydratedState } = await renderToStringWithEffects(<Broken />, {
+      layer: Layer.empty,
+    })
+
+    expect(html).toBe("<p>Failure</p>")
+    expect(dehydratedState.entries).toEqual([])
+  })
+
+  it("encodes values with a schema", async () => {
+    const schema = Schema.Option(Schema.Date)
+
+    function Created() {
+      const result = useRunEffect(Effect.succeed(Option.some(new Date("2024-01-02T00:00:00.000Z"))), {
+        key: ["created"],
+        schema,
+      })
+      return <p>{result._tag === "Success" ? Option.getOrThrow(result.value).toISOString() : result._tag}</p>
+    }
+
+    const { dehydratedState } = await renderToStringWithEffects(<Created />, { layer: Layer.empty })
+
+    // Plain JSON — survives embedding in the page
+    expect(JSON.parse(JSON.stringify(dehydratedState))).toEqual({
+      entries: [
+        { key: ["created"], value: { _tag: "Some", value: "2024-01-02T00:00:00.000Z" } },
+      ],
+    })
+  })
+})
+
+describe("EffectProvider dehydratedState", () => {
+  it("starts keyed effects from the dehydrated Success without running them", async () => {
+    let runs = 0
+    const schema = Schema.Option(Schema.Date)
+    const effect = Effect.sync(() => {
+      runs++
+      return Option.some(new Date("2024-01-02T00:00:00.000Z"))
+    })
+
+    function Created() {
+      const result = useRunEffect(effect, { key: ["created"], schema })
+      return <p>{result._tag === "Success" ? Option.getOrThrow(result.value).toISOString() : result._tag}</p>
+    }
+
+    const { html, dehydratedState } = await renderToStringWithEffects(<Created />, { layer: Layer.empty })
+    expect(runs).toBe(1)
+
+    const clientHtml = renderToString(
+      <EffectProvider layer={Layer.empty} dehydratedState={JSON.parse(JSON.stringify(dehydratedState))}>
+        <Created />
+      </EffectProvider>,
+    )
+
+    expect(clientHtml).toBe(html)
+    expect(clientHtml).toBe("<p>2024-01-02T00:00:00.000Z</p>")
+    expect(runs).toBe(1)
+  })
+
+  it("ignores dehydrated values that no longer decode", () => {
+    function Count() {
+      const result = useRunEffect(Effect.succeed(1), { key: ["count"], schema: Schema.Number })
+      return <p>{result._tag === "Success" ? String(result.value) : result._tag}</p>
+    }
+
+    const html = renderToString(
+      <EffectProvider layer={Layer.empty} dehydratedState={{ entries: [{ key: ["count"], value: "oops" }] }}>
+        <Count />
+      </EffectProvider>,
+    )
+
+    expect(html).toBe("<p>Loading</p>")
+  })
+})
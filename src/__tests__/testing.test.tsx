@@ -0,0 +1,96 @@
+import { describe, it, expect } from "vitest"
+import * as React from "react"
+import { Context, Effect, Layer } from "effect"
+import {
+  assertNoLeakedFibers,
+  renderHookWithLayer,
+  renderWithLayer,
+  waitForSuccess,
+} from "../testing.js"
+import "../testing-setup.js"
+import { useRunEffect } from "../hooks/useRunEffect.js"
+
+class Greeter extends Context.Tag("Greeter")<
+  Greeter,
+  { readonly greet: (name: string) => Effect.Effect<string> }
+>() {}
+
+const GreeterLive = Layer.succeed(Greeter, {
+  greet: (name) => Effect.succeed(`Hello, ${name}`),
+})
+
+describe("effect-react/testing", () => {
+  it("renders under the layer and only advances sleeps with advanceTime", async () => {
+    function Delayed() {
+      const result = useRunEffect(
+        Effect.flatMap(Greeter, (g) => g.greet("Alice")).pipe(Effect.delay("5 seconds")),
+      )
+      return (
+        <div data-testid="result">
+          {result._tag === "Success" ? result.value : result._tag}
+        </div>
+      )
+    }
+
+    const { getByTestId, advanceTime } = renderWithLayer(<Delayed />, GreeterLive)
+
+    await advanceTime("4 seconds")
+    expect(getByTestId("result").textContent).toBe("Loading")
+
+    await advanceTime("1 second")
+    expect(getByTestId("result").textContent).toBe("Hello, Alice")
+  })
+
+  it("keeps the provider around rerendered UI", async () => {
+    function Greeting({ name }: { name: string }) {
+      const result = useRunEffect(Effect.flatMap(Greeter, (g) => g.greet(name)), { deps: [name] })
+      return <div data-testid="result">{result._tag === "Success" ? result.value : result._tag}</div>
+    }
+
+    const { getByTestId, rerender } = renderWithLayer(<Greeting name="Alice" />, GreeterLive)
+    rerender(<Greeting name="Bob" />)
+
+    expect(getByTestId("result").textContent).toBe("Hello, Bob")
+  })
+
+  it("does not let waitForSuccess move the TestClock", async () => {
+    const { result } = renderHookWithLayer(
+      () => useRunEffect(Effect.flatMap(Greeter, (g) => g.greet("Bob")).pipe(Effect.delay(10))),
+      GreeterLive,
+    )
+
+    // Waiting uses real timers: the delayed effect stays Loading until advanceTime.
+    const pending = waitForSuccess(result, { timeout: 100 })
+    await expect(pending).rejects.toThrow("still loading")
+  })
+
+  it("returns the value once the result is a Success", async () => {
+    const { result } = renderHookWithLayer(
+      () => useRunEffect(Effect.flatMap(Greeter, (g) => g.greet("Bob"))),
+      GreeterLive,
+    )
+
+    expect(await waitForSuccess(result)).toBe("Hello, Bob")
+  })
+
+  it("rejects with the Cause when the result is a failure", async () => {
+    const { result } = renderHookWithLayer(() => useRunEffect(Effect.fail("boom")), Layer.empty)
+
+    await expect(waitForSuccess(result)).rejects.toThrow(/expected Success, got Failure:[\s\S]*boom/)
+  })
+
+  it("reports fibers still running after unmount", async () => {
+    renderHookWithLayer(
+      () => useRunEffect(Effect.forkDaemon(Effect.sleep("1 hour"))),
+      Layer.empty,
+    )
+
+    await expect(assertNoLeakedFibers()).rejects.toThrow("1 fiber(s) still running after unmount")
+  })
+
+  it("passes when every fiber ended with its component", async () => {
+    renderHookWithLayer(() => useRunEffect(Effect.never), Layer.empty)
+
+    await expect(assertNoLeakedFibers()).resolves.toBeUndefined()
+  })
+})
@@ -0,0 +1,138 @@
+import { describe, it, expect } from "vitest"
+import { render, screen, act, fireEvent } from "@testing-library/react"
+import * as React from "react"
+import { Effect, Layer, Option, Tracer } from "effect"
+import { EffectProvider } from "../providers/EffectProvider.js"
+import { useRunEffect } from "../hooks/useRunEffect.js"
+import { useEffectCallback } from "../hooks/useEffectCallback.js"
+import { useEffectReducer } from "../hooks/useEffectReducer.js"
+import { useEffectStateAsync } from "../hooks/useEffectStateAsync.js"
+
+interface RecordedSpan {
+  readonly name: string
+  readonly spanId: string
+  readonly parentName: string | undefined
+  readonly attributes: Map<string, unknown>
+  ended: boolean
+}
+
+/**
+ * In-memory stand-in for an OTLP collector.
+ */
+function makeCollector() {
+  const spans: Array<RecordedSpan> = []
+  let nextId = 0
+  const tracer = Tracer.make({
+    span(name, parent, context, links, _startTime, kind) {
+      const attributes = new Map<string, unknown>()
+      const recorded: RecordedSpan = {
+        name,
+        spanId: String(++nextId),
+        parentName: Option.isSome(parent) && parent.value._tag === "Span" ? parent.value.name : undefined,
+        attributes,
+        ended: false,
+      }
+      spans.push(recorded)
+      return {
+        _tag: "Span",
+        name,
+        spanId: recorded.spanId,
+        traceId: "trace",
+        parent,
+        context,
+        status: { _tag: "Started", startTime: 0n },
+        attributes,
+        links,
+        sampled: true,
+        kind,
+        end: () => {
+          recorded.ended = true
+        },
+        attribute: (key, value) => {
+          attributes.set(key, value)
+        },
+        event: () => {},
+        addLinks: () => {},
+      }
+    },
+    context: (f) => f(),
+  })
+  return { spans, layer: Layer.setTracer(tracer) }
+}
+
+describe("hook tracing spans", () => {
+  it("wraps useRunEffect runs in a span that parents the effect's own spans", async () => {
+    const collector = makeCollector()
+
+    function Accounts({ userId }: { userId: string }) {
+      const result = useRunEffect(
+        Effect.succeed(["acc-1"]).pipe(Effect.withSpan("AccountRepository.getAll")),
+        { deps: [userId], spanName: "Accounts.load" },
+      )
+      return <div data-testid="result">{result._tag}</div>
+    }
+
+    render(
+      <EffectProvider layer={collector.layer}>
+        <Accounts userId="u-1" />
+      </EffectProvider>,
+    )
+
+    await act(async () => {
+      await new Promise((r) => setTimeout(r, 50))
+    })
+
+    const hookSpan = collector.spans.find((span) => span.name === "Accounts.load")
+    expect(hookSpan?.attributes.get("effect_react.hook")).toBe("useRunEffect")
+    expect(hookSpan?.attributes.get("effect_react.deps")).toEqual(["u-1"])
+    expect(hookSpan?.ended).toBe(true)
+
+    const child = collector.spans.find((span) => span.name === "AccountRepository.getAll")
+    expect(child?.parentName).toBe("Accounts.load")
+  })
+
+  it("names spans after the hook by default", async () => {
+    const collector = makeCollector()
+
+    function Test() {
+      const [, setValue] = useEffectStateAsync(Effect.succeed(1))
+      const { run } = useEffectCallback(() => Effect.void)
+      const [, dispatch] = useEffectReducer(
+        (state: number, _action: { type: "load" }) => Effect.succeed(state + 1),
+        0,
+      )
+      return (
+        <button
+          data-testid="go"
+          onClick={() => {
+            setValue(Effect.succeed(2))
+            run()
+            dispatch({ type: "load" })
+          }}
+        >
+          Go
+        </button>
+      )
+    }
+
+    render(
+      <EffectProvider layer={collector.layer}>
+        <Test />
+      </EffectProvider>,
+    )
+
+    fireEvent.click(screen.getByTestId("go"))
+
+    await act(async () => {
+      await new Promise((r) => setTimeout(r, 50))
+    })
+
+    const byName = (name: string) => collector.spans.filter((span) => span.name === name)
+
+    expect(
+      byName("useEffectStateAsync").map((span) => span.attributes.get("effect_react.phase")).sort(),
+    ).toEqual(["initial", "set"])
+    expect(byName("useEffectCallback")[0]?.attributes.get("effect_react.concurrency")).toBe("switch")
+    expect(byName("useEffectReducer")[0]?.attributes.get("effect_react.action")).toBe("load")
+  })
+})
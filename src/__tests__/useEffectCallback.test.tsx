@@ -1,9 +1,11 @@
 import { describe, it, expect } from "vitest"
 import { render, screen, act, fireEvent } from "@testing-library/react"
 import * as React from "react"
-import { Effect, Layer } from "effect"
+import { Deferred, Effect, Exit, Layer, Schedule } from "effect"
 import { EffectProvider } from "../providers/EffectProvider.js"
 import { useEffectCallback } from "../hooks/useEffectCallback.js"
+import { useRunEffect } from "../hooks/useRunEffect.js"
+import { useInvalidate } from "../hooks/useInvalidate.js"
 
 const TestLayer = Layer.empty
 
@@ -189,4 +191,412 @@ describe("useEffectCallback", () => {
 
     expect(screen.getByTestId("result").textContent).toBe("Loading")
   })
+
+  it("surfaces defects as Defect", async () => {
+    function Test() {
+      const { run, result } = useEffectCallback(() => Effect.die("broken"))
+      return (
+        <div>
+          <button data-testid="btn" onClick={() => run()}>
+            Run
+          </button>
+          <span data-testid="result">
+            {result._tag === "Defect" ? String(result.defect) : result._tag}
+          </span>
+        </div>
+      )
+    }
+
+    render(
+      <EffectProvider layer={TestLayer}>
+        <Test />
+      </EffectProvider>,
+    )
+
+    fireEvent.click(screen.getByTestId("btn"))
+
+    await act(async () => {
+      await new Promise((r) => setTimeout(r, 50))
+    })
+
+    expect(screen.getByTestId("result").textContent).toBe("broken")
+  })
+
+  it("retries each run and restarts the attempt count", async () => {
+    let attempts = 0
+    const seen: Array<string> = []
+
+    function Test() {
+      const { run, result } = useEffectCallback(
+        () =>
+          Effect.suspend(() => {
+            attempts++
+            return attempts % 2 === 1 ? Effect.fail("flaky") : Effect.delay(Effect.succeed(attempts), "10 millis")
+          }),
+        { retry: { schedule: Schedule.spaced("10 millis") } },
+      )
+      const label =
+        result._tag === "Loading" && result.attempt !== undefined
+          ? `attempt:${result.attempt}`
+          : result._tag === "Success" ? String(result.value) : result._tag
+      seen.push(label)
+      return (
+        <div>
+          <div data-testid="result">{label}</div>
+          <button data-testid="run" onClick={() => run()}>Run</button>
+        </div>
+      )
+    }
+
+    render(
+      <EffectProvider layer={TestLayer}>
+        <Test />
+      </EffectProvider>,
+    )
+
+    fireEvent.click(screen.getByTestId("run"))
+    await act(async () => {
+      await new Promise((r) => setTimeout(r, 50))
+    })
+    expect(screen.getByTestId("result").textContent).toBe("2")
+
+    fireEvent.click(screen.getByTestId("run"))
+    await act(async () => {
+      await new Promise((r) => setTimeout(r, 50))
+    })
+    expect(screen.getByTestId("result").textContent).toBe("4")
+    expect(seen).toContain("attempt:2")
+    expect(seen).not.toContain("attempt:3")
+  })
+
+  it("resolves run with the Exit of that invocation", async () => {
+    const exits: Array<Exit.Exit<number, string>> = []
+
+    function Test() {
+      const { run } = useEffectCallback((n: number) =>
+        n > 0 ? Effect.succeed(n) : Effect.fail("negative"),
+      )
+      return (
+        <button
+          data-testid="run"
+          onClick={async () => {
+            exits.push(await run(1))
+            exits.push(await run(-1))
+          }}
+        >
+          Run
+        </button>
+      )
+    }
+
+    render(
+      <EffectProvider layer={TestLayer}>
+        <Test />
+      </EffectProvider>,
+    )
+
+    fireEvent.click(screen.getByTestId("run"))
+    await act(async () => {
+      await new Promise((r) => setTimeout(r, 50))
+    })
+
+    expect(exits).toEqual([Exit.succeed(1), Exit.fail("negative")])
+  })
+
+  it("exhaust: ignores runs while one is in flight", async () => {
+    let started = 0
+    const exits: Array<Exit.Exit<number>> = []
+
+    function Test() {
+      const { run, result } = useEffectCallback(
+        (n: number) =>
+          Effect.sync(() => started++).pipe(
+            Effect.zipRight(Effect.delay(Effect.succeed(n), "20 millis")),
+          ),
+        { concurrency: "exhaust" },
+      )
+      return (
+        <div>
+          <span data-testid="result">
+            {result._tag === "Success" ? String(result.value) : result._tag}
+          </span>
+          <button
+            data-testid="run"
+            onClick={() => {
+              run(1).then((exit) => exits.push(exit))
+              run(2).then((exit) => exits.push(exit))
+            }}
+          >
+            Run
+          </button>
+        </div>
+      )
+    }
+
+    render(
+      <EffectProvider layer={TestLayer}>
+        <Test />
+      </EffectProvider>,
+    )
+
+    fireEvent.click(screen.getByTestId("run"))
+    await act(async () => {
+      await new Promise((r) => setTimeout(r, 80))
+    })
+
+    expect(started).toBe(1)
+    expect(screen.getByTestId("result").textContent).toBe("1")
+    expect(exits).toHaveLength(2)
+    expect(Exit.isInterrupted(exits[0]!)).toBe(true)
+    expect(exits[1]).toEqual(Exit.succeed(1))
+  })
+
+  it("queue: runs invocations one after another without interrupting", async () => {
+    const log: Array<string> = []
+
+    function Test() {
+      const { run, result, isLoading } = useEffectCallback(
+        (n: number) =>
+          Effect.sync(() => log.push(`start ${n}`)).pipe(
+            Effect.zipRight(Effect.sleep("10 millis")),
+            Effect.map(() => {
+              log.push(`end ${n}`)
+              return n
+            }),
+          ),
+        { concurrency: "queue" },
+      )
+      return (
+        <div>
+          <span data-testid="result">
+            {result._tag === "Success" ? String(result.value) : result._tag}
+          </span>
+          <span data-testid="loading">{String(isLoading)}</span>
+          <button
+            data-testid="run"
+            onClick={() => {
+              run(1)
+              run(2)
+              run(3)
+            }}
+          >
+            Run
+          </button>
+        </div>
+      )
+    }
+
+    render(
+      <EffectProvider layer={TestLayer}>
+        <Test />
+      </EffectProvider>,
+    )
+
+    fireEvent.click(screen.getByTestId("run"))
+    await act(async () => {
+      await new Promise((r) => setTimeout(r, 15))
+    })
+    // The first invocation finished, but the queue is not empty yet
+    expect(screen.getByTestId("loading").textContent).toBe("true")
+
+    await act(async () => {
+      await new Promise((r) => setTimeout(r, 80))
+    })
+
+    expect(log).toEqual(["start 1", "end 1", "start 2", "end 2", "start 3", "end 3"])
+    expect(screen.getByTestId("result").textContent).toBe("3")
+    expect(screen.getByTestId("loading").textContent).toBe("false")
+  })
+
+  it("merge: runs invocations in parallel up to maxConcurrent", async () => {
+    let running = 0
+    let peak = 0
+    const gates: Array<Deferred.Deferred<void>> = []
+
+    function Test() {
+      const { run } = useEffectCallback(
+        () =>
+          Effect.gen(function* () {
+            running++
+            peak = Math.max(peak, running)
+            const gate = yield* Deferred.make<void>()
+            gates.push(gate)
+            yield* Deferred.await(gate)
+            running--
+          }),
+        { concurrency: "merge", maxConcurrent: 2 },
+      )
+      return (
+        <button
+          data-testid="run"
+          onClick={() => {
+            run()
+            run()
+            run()
+          }}
+        >
+          Run
+        </button>
+      )
+    }
+
+    render(
+      <EffectProvider layer={TestLayer}>
+        <Test />
+      </EffectProvider>,
+    )
+
+    fireEvent.click(screen.getByTestId("run"))
+    await act(async () => {
+      await new Promise((r) => setTimeout(r, 20))
+    })
+    expect(running).toBe(2)
+
+    await act(async () => {
+      Effect.runSync(Deferred.succeed(gates[0]!, undefined))
+      await new Promise((r) => setTimeout(r, 20))
+    })
+    expect(running).toBe(2)
+    expect(gates).toHaveLength(3)
+
+    await act(async () => {
+      for (const gate of gates) Effect.runSync(Deferred.succeed(gate, undefined))
+      await new Promise((r) => setTimeout(r, 20))
+    })
+    expect(running).toBe(0)
+    expect(peak).toBe(2)
+  })
+
+  describe("optimistic", () => {
+    const settle = () =>
+      act(async () => {
+        await new Promise((r) => setTimeout(r, 10))
+      })
+
+    function Balance({ load }: { load: Effect.Effect<number> }) {
+      const result = useRunEffect(load, { key: ["balance"] })
+      return <span data-testid="balance">{result._tag === "Success" ? result.value : result._tag}</span>
+    }
+
+    function Withdraw({ withdraw }: { withdraw: (amount: number) => Effect.Effect<void, string> }) {
+      const invalidate = useInvalidate()
+      const { run, reset, result } = useEffectCallback(withdraw, {
+        optimistic: (amount) => [{ key: ["balance"], update: (balance: number) => balance - amount }],
+        onSuccess: () => invalidate(["balance"]),
+      })
+      return (
+        <div>
+          <span data-testid="tag">{result._tag}</span>
+          <button data-testid="withdraw" onClick={() => run(30)}>Withdraw</button>
+          <button data-testid="reset" onClick={reset}>Reset</button>
+        </div>
+      )
+    }
+
+    it("shows the update while running and keeps it until the refetch", async () => {
+      let balance = 100
+      const gate = Effect.runSync(Deferred.make<void>())
+
+      render(
+        <EffectProvider layer={TestLayer}>
+          <Balance load={Effect.sync(() => balance)} />
+          <Withdraw
+            withdraw={(amount) =>
+              Deferred.await(gate).pipe(Effect.andThen(() => { balance -= amount }))
+            }
+          />
+        </EffectProvider>,
+      )
+      await settle()
+      expect(screen.getByTestId("balance").textContent).toBe("100")
+
+      fireEvent.click(screen.getByTestId("withdraw"))
+      expect(screen.getByTestId("balance").textContent).toBe("70")
+
+      await act(async () => {
+        Effect.runSync(Deferred.succeed(gate, undefined))
+        await new Promise((r) => setTimeout(r, 10))
+      })
+
+      // The refetched balance replaces the update instead of being updated again
+      expect(screen.getByTestId("tag").textContent).toBe("Success")
+      expect(screen.getByTestId("balance").textContent).toBe("70")
+    })
+
+    it("keeps the committed update on screen while the invalidated entry refetches", async () => {
+      let balance = 100
+      let loads = 0
+      const refetch = Effect.runSync(Deferred.make<void>())
+      const seen: Array<string> = []
+
+      function TrackedBalance() {
+        const result = useRunEffect(
+          Effect.suspend(() => (++loads === 1 ? Effect.succeed(balance) : Deferred.await(refetch).pipe(Effect.as(balance)))),
+          { key: ["balance"] },
+        )
+        seen.push(result._tag === "Success" ? `${result.value}${result.isRefreshing ? " (refreshing)" : ""}` : result._tag)
+        return null
+      }
+
+      render(
+        <EffectProvider layer={TestLayer}>
+          <TrackedBalance />
+          <Withdraw withdraw={(amount) => Effect.sync(() => { balance -= amount })} />
+        </EffectProvider>,
+      )
+      await settle()
+
+      fireEvent.click(screen.getByTestId("withdraw"))
+      await settle()
+      await act(async () => {
+        Effect.runSync(Deferred.succeed(refetch, undefined))
+        await new Promise((r) => setTimeout(r, 10))
+      })
+
+      const afterLoad = seen.slice(seen.indexOf("100"))
+      expect(afterLoad).not.toContain("Loading")
+      expect(afterLoad).toContain("70 (refreshing)")
+      expect(seen[seen.length - 1]).toBe("70")
+    })
+
+    it("rolls the update back when the run fails", async () => {
+      render(
+        <EffectProvider layer={TestLayer}>
+          <Balance load={Effect.succeed(100)} />
+          <Withdraw withdraw={() => Effect.fail("insufficient funds").pipe(Effect.delay(5))} />
+        </EffectProvider>,
+      )
+
+      await settle()
+      fireEvent.click(screen.getByTestId("withdraw"))
+      expect(screen.getByTestId("balance").textContent).toBe("70")
+
+      await act(async () => {
+        await new Promise((r) => setTimeout(r, 20))
+      })
+
+      expect(screen.getByTestId("tag").textContent).toBe("Failure")
+      expect(screen.getByTestId("balance").textContent).toBe("100")
+    })
+
+    it("rolls the update back when the run is interrupted", async () => {
+      render(
+        <EffectProvider layer={TestLayer}>
+          <Balance load={Effect.succeed(100)} />
+          <Withdraw withdraw={() => Effect.never} />
+        </EffectProvider>,
+      )
+
+      await settle()
+      fireEvent.click(screen.getByTestId("withdraw"))
+      expect(screen.getByTestId("balance").textContent).toBe("70")
+
+      await act(async () => {
+        fireEvent.click(screen.getByTestId("reset"))
+        await new Promise((r) => setTimeout(r, 10))
+      })
+
+      expect(screen.getByTestId("balance").textContent).toBe("100")
+    })
+  })
 })
@@ -0,0 +1,164 @@
+import { describe, it, expect } from "vitest"
+import { render, screen, act, fireEvent } from "@testing-library/react"
+import * as React from "react"
+import { Context, Effect, Layer, Schema } from "effect"
+import { EffectProvider } from "../providers/EffectProvider.js"
+import { useEffectForm } from "../hooks/useEffectForm.js"
+
+class Accounts extends Context.Tag("Accounts")<
+  Accounts,
+  { readonly exists: (id: string) => Effect.Effect<boolean> }
+>() {}
+
+const AccountsLive = Layer.succeed(Accounts, {
+  exists: (id) => Effect.succeed(id === "acc-1").pipe(Effect.delay(5)),
+})
+
+const AccountId = Schema.String.pipe(
+  Schema.filterEffect((id) =>
+    Effect.flatMap(Accounts, (accounts) => accounts.exists(id)).pipe(
+      Effect.map((exists) => exists || `Account ${id} does not exist`),
+    ),
+  ),
+)
+
+const Transfer = Schema.Struct({
+  to: AccountId,
+  amount: Schema.NumberFromString.pipe(Schema.positive({ message: () => "Must be positive" })),
+})
+
+const settle = () =>
+  act(async () => {
+    await new Promise((r) => setTimeout(r, 50))
+  })
+
+function TransferForm({ onSubmit }: { onSubmit: (value: typeof Transfer.Type) => Effect.Effect<string> }) {
+  const form = useEffectForm(Transfer, { initialValues: { to: "", amount: "" }, onSubmit })
+  return (
+    <div>
+      <input data-testid="to" value={form.values.to} onChange={(e) => form.setValue("to", e.target.value)} />
+      <input data-testid="amount" value={form.values.amount} onChange={(e) => form.setValue("amount", e.target.value)} />
+      <span data-testid="to-error">{form.errors.to ?? ""}</span>
+      <span data-testid="amount-error">{form.errors.amount ?? ""}</span>
+      <span data-testid="valid">{String(form.isValid)}</span>
+      <span data-testid="result">
+        {form.result._tag === "Success" ? form.result.value : form.result._tag}
+      </span>
+      <button data-testid="submit" onClick={() => form.submit()}>Submit</button>
+      <button data-testid="reset" onClick={() => form.reset()}>Reset</button>
+    </div>
+  )
+}
+
+describe("useEffectForm", () => {
+  it("reports issues only for touched fields until submit", async () => {
+    render(
+      <EffectProvider layer={AccountsLive}>
+        <TransferForm onSubmit={() => Effect.succeed("sent")} />
+      </EffectProvider>,
+    )
+
+    await settle()
+
+    expect(screen.getByTestId("valid").textContent).toBe("false")
+    expect(screen.getByTestId("to-error").textContent).toBe("")
+    expect(screen.getByTestId("amount-error").textContent).toBe("")
+
+    fireEvent.change(screen.getByTestId("amount"), { target: { value: "-5" } })
+    await settle()
+
+    expect(screen.getByTestId("amount-error").textContent).toBe("Must be positive")
+    expect(screen.getByTestId("to-error").textContent).toBe("")
+
+    fireEvent.click(screen.getByTestId("submit"))
+    await settle()
+
+    expect(screen.getByTestId("to-error").textContent).toBe("Account  does not exist")
+    expect(screen.getByTestId("result").textContent).toBe("Failure")
+  })
+
+  it("runs async refinements with the provider's services", async () => {
+    render(
+      <EffectProvider layer={AccountsLive}>
+        <TransferForm onSubmit={() => Effect.succeed("sent")} />
+      </EffectProvider>,
+    )
+
+    fireEvent.change(screen.getByTestId("to"), { target: { value: "acc-9" } })
+    await settle()
+    expect(screen.getByTestId("to-error").textContent).toBe("Account acc-9 does not exist")
+
+    fireEvent.change(screen.getByTestId("to"), { target: { value: "acc-1" } })
+    await settle()
+    expect(screen.getByTestId("to-error").textContent).toBe("")
+  })
+
+  it("submits the decoded value and resets", async () => {
+    const submitted: Array<typeof Transfer.Type> = []
+
+    render(
+      <EffectProvider layer={AccountsLive}>
+        <TransferForm
+          onSubmit={(value) =>
+            Effect.sync(() => {
+              submitted.push(value)
+              return `sent ${value.amount}`
+            })
+          }
+        />
+      </EffectProvider>,
+    )
+
+    fireEvent.change(screen.getByTestId("to"), { target: { value: "acc-1" } })
+    fireEvent.change(screen.getByTestId("amount"), { target: { value: "250" } })
+    await settle()
+    expect(screen.getByTestId("valid").textContent).toBe("true")
+
+    fireEvent.click(screen.getByTestId("submit"))
+    fireEvent.click(screen.getByTestId("submit"))
+    await settle()
+
+    expect(submitted).toEqual([{ to: "acc-1", amount: 250 }])
+    expect(screen.getByTestId("result").textContent).toBe("sent 250")
+
+    fireEvent.click(screen.getByTestId("reset"))
+    await settle()
+
+    expect((screen.getByTestId("amount") as HTMLInputElement).value).toBe("")
+    expect(screen.getByTestId("amount-error").textContent).toBe("")
+  })
+
+  it("validates once per change with a schema built inline", async () => {
+    let renders = 0
+
+    function InlineForm() {
+      renders++
+      const form = useEffectForm(Schema.Struct({ amount: Schema.NumberFromString }), {
+        initialValues: { amount: "1" },
+        onSubmit: (value) => Effect.succeed(value.amount),
+      })
+      return (
+        <div>
+          <input data-testid="amount" value={form.values.amount} onChange={(e) => form.setValue("amount", e.target.value)} />
+          <span data-testid="amount-error">{form.errors.amount ?? ""}</span>
+          <span data-testid="valid">{String(form.isValid)}</span>
+        </div>
+      )
+    }
+
+    render(
+      <EffectProvider layer={AccountsLive}>
+        <InlineForm />
+      </EffectProvider>,
+    )
+
+    await settle()
+    expect(screen.getByTestId("valid").textContent).toBe("true")
+
+    fireEvent.change(screen.getByTestId("amount"), { target: { value: "abc" } })
+    await settle()
+    expect(screen.getByTestId("valid").textContent).toBe("false")
+    expect(screen.getByTestId("amount-error").textContent).not.toBe("")
+    expect(renders).toBeLessThan(10)
+  })
+})
@@ -1,7 +1,7 @@
 import { describe, it, expect } from "vitest"
 import { render, screen, act, fireEvent } from "@testing-library/react"
 import * as React from "react"
-import { Effect, Layer, Context } from "effect"
+import { Cause, Effect, Layer, Context } from "effect"
 import { EffectProvider } from "../providers/EffectProvider.js"
 import { useEffectReducer } from "../hooks/useEffectReducer.js"
 
@@ -349,4 +349,125 @@ describe("useEffectReducer", () => {
     expect(screen.getByTestId("result").textContent).toBe("777")
     expect(screen.getByTestId("pending").textContent).toBe("false")
   })
+
+  it("surfaces a failed reducer Effect in the failure slot and keeps state", async () => {
+    type Action = { type: "save" } | { type: "edit" }
+
+    function Test() {
+      const [state, dispatch, isPending, failure] = useEffectReducer(
+        (state: string, action: Action) =>
+          action.type === "save" ? Effect.fail("invalid step") : "editing",
+        "draft",
+      )
+      return (
+        <div>
+          <span data-testid="state">{state}</span>
+          <span data-testid="pending">{String(isPending)}</span>
+          <span data-testid="failure">
+            {failure?._tag === "Failure" ? failure.error : String(failure)}
+          </span>
+          <button data-testid="save" onClick={() => dispatch({ type: "save" })}>Save</button>
+          <button data-testid="edit" onClick={() => dispatch({ type: "edit" })}>Edit</button>
+        </div>
+      )
+    }
+
+    render(
+      <EffectProvider layer={TestLayer}>
+        <Test />
+      </EffectProvider>,
+    )
+
+    fireEvent.click(screen.getByTestId("save"))
+    await act(async () => {
+      await new Promise((r) => setTimeout(r, 50))
+    })
+
+    expect(screen.getByTestId("state").textContent).toBe("draft")
+    expect(screen.getByTestId("pending").textContent).toBe("false")
+    expect(screen.getByTestId("failure").textContent).toBe("invalid step")
+
+    // The next dispatch clears the failure
+    fireEvent.click(screen.getByTestId("edit"))
+    expect(screen.getByTestId("state").textContent).toBe("editing")
+    expect(screen.getByTestId("failure").textContent).toBe("null")
+  })
+
+  it("onError can dispatch a compensating action", async () => {
+    type Action = { type: "next" } | { type: "back"; reason: string }
+    const errors: Array<[Action, string]> = []
+
+    function Test() {
+      const [state, dispatch, , failure] = useEffectReducer(
+        (state: { step: number; note: string }, action: Action) =>
+          action.type === "next"
+            ? Effect.fail("server rejected")
+            : { step: state.step - 1, note: action.reason },
+        { step: 2, note: "" },
+        {
+          onError: (action, error, dispatch) => {
+            errors.push([action, error])
+            dispatch({ type: "back", reason: error })
+          },
+        },
+      )
+      return (
+        <div>
+          <span data-testid="state">{`${state.step}:${state.note}`}</span>
+          <span data-testid="failure">{failure?._tag === "Failure" ? failure.error : String(failure)}</span>
+          <button data-testid="next" onClick={() => dispatch({ type: "next" })}>Next</button>
+        </div>
+      )
+    }
+
+    render(
+      <EffectProvider layer={TestLayer}>
+        <Test />
+      </EffectProvider>,
+    )
+
+    fireEvent.click(screen.getByTestId("next"))
+    await act(async () => {
+      await new Promise((r) => setTimeout(r, 50))
+    })
+
+    expect(screen.getByTestId("state").textContent).toBe("1:server rejected")
+    expect(errors).toEqual([[{ type: "next" }, "server rejected"]])
+    // The compensation answers the failure — it stays visible
+    expect(screen.getByTestId("failure").textContent).toBe("server rejected")
+  })
+
+  it("reports defects through the failure slot and onDefect", async () => {
+    const defects: Array<unknown> = []
+
+    function Test() {
+      const [, dispatch, , failure] = useEffectReducer(
+        (_state: number, _action: "crash") => Effect.die(new Error("kaboom")),
+        0,
+        { onDefect: (_action, cause) => defects.push(Cause.squash(cause)) },
+      )
+      return (
+        <div>
+          <span data-testid="failure">
+            {failure?._tag === "Defect" ? String(failure.defect) : String(failure)}
+          </span>
+          <button data-testid="crash" onClick={() => dispatch("crash")}>Crash</button>
+        </div>
+      )
+    }
+
+    render(
+      <EffectProvider layer={TestLayer}>
+        <Test />
+      </EffectProvider>,
+    )
+
+    fireEvent.click(screen.getByTestId("crash"))
+    await act(async () => {
+      await new Promise((r) => setTimeout(r, 50))
+    })
+
+    expect(screen.getByTestId("failure").textContent).toBe("Error: kaboom")
+    expect(defects).toHaveLength(1)
+  })
 })
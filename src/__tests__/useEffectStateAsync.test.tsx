@@ -1,7 +1,7 @@
 import { describe, it, expect } from "vitest"
 import { render, screen, act, fireEvent } from "@testing-library/react"
 import * as React from "react"
-import { Effect, Layer } from "effect"
+import { Effect, Layer, Schedule } from "effect"
 import { EffectProvider } from "../providers/EffectProvider.js"
 import { useEffectStateAsync } from "../hooks/useEffectStateAsync.js"
 
@@ -346,4 +346,65 @@ describe("useEffectStateAsync", () => {
 
     expect(screen.getByTestId("result").textContent).toBe("init-error")
   })
+
+  it("surfaces a dying initial effect as Defect and clears isPending", async () => {
+    function Test() {
+      const [result, , isPending] = useEffectStateAsync(Effect.die("init-defect"))
+      return (
+        <div>
+          <span data-testid="result">
+            {result._tag === "Defect" ? String(result.defect) : result._tag}
+          </span>
+          <span data-testid="pending">{String(isPending)}</span>
+        </div>
+      )
+    }
+
+    render(
+      <EffectProvider layer={TestLayer}>
+        <Test />
+      </EffectProvider>,
+    )
+
+    await act(async () => {
+      await new Promise((r) => setTimeout(r, 50))
+    })
+
+    expect(screen.getByTestId("result").textContent).toBe("init-defect")
+    expect(screen.getByTestId("pending").textContent).toBe("false")
+  })
+
+  it("retries the initial effect and reports the attempt", async () => {
+    let attempts = 0
+    const seen: Array<string> = []
+
+    function Test() {
+      const [result] = useEffectStateAsync(
+        Effect.suspend(() => {
+          attempts++
+          return attempts < 2 ? Effect.fail("flaky") : Effect.delay(Effect.succeed("loaded"), "10 millis")
+        }),
+        { retry: { schedule: Schedule.spaced("10 millis") } },
+      )
+      const label =
+        result._tag === "Loading"
+          ? `Loading:${result.attempt ?? 1}`
+          : result._tag === "Success" ? result.value : result._tag
+      seen.push(label)
+      return <div data-testid="result">{label}</div>
+    }
+
+    render(
+      <EffectProvider layer={TestLayer}>
+        <Test />
+      </EffectProvider>,
+    )
+
+    await act(async () => {
+      await new Promise((r) => setTimeout(r, 50))
+    })
+
+    expect(screen.getByTestId("result").textContent).toBe("loaded")
+    expect(seen).toContain("Loading:2")
+  })
 })
@@ -0,0 +1,238 @@
+import { describe, it, expect } from "vitest"
+import { render, screen, act, fireEvent } from "@testing-library/react"
+import * as React from "react"
+import { Effect, Layer } from "effect"
+import { EffectProvider } from "../providers/EffectProvider.js"
+import { useRunEffect } from "../hooks/useRunEffect.js"
+import { useEffectCallback } from "../hooks/useEffectCallback.js"
+import { useInvalidate } from "../hooks/useInvalidate.js"
+
+const TestLayer = Layer.empty
+
+describe("useInvalidate", () => {
+  it("re-runs every subscriber of an invalidated key", async () => {
+    let runs = 0
+    const effect = Effect.sync(() => ++runs)
+
+    function Reader({ testId }: { testId: string }) {
+      const result = useRunEffect(effect, { key: ["accounts"] })
+      return (
+        <div data-testid={testId}>
+          {result._tag === "Success" ? String(result.value) : result._tag}
+        </div>
+      )
+    }
+
+    function Invalidator() {
+      const invalidate = useInvalidate()
+      return (
+        <button data-testid="invalidate" onClick={() => invalidate(["accounts"])}>
+          Invalidate
+        </button>
+      )
+    }
+
+    render(
+      <EffectProvider layer={TestLayer}>
+        <Reader testId="a" />
+        <Reader testId="b" />
+        <Invalidator />
+      </EffectProvider>,
+    )
+
+    await act(async () => {
+      await new Promise((r) => setTimeout(r, 50))
+    })
+
+    expect(screen.getByTestId("a").textContent).toBe("1")
+
+    fireEvent.click(screen.getByTestId("invalidate"))
+
+    await act(async () => {
+      await new Promise((r) => setTimeout(r, 50))
+    })
+
+    expect(screen.getByTestId("a").textContent).toBe("2")
+    expect(screen.getByTestId("b").textContent).toBe("2")
+    expect(runs).toBe(2)
+  })
+
+  it("matches keys by prefix", async () => {
+    const runs: Record<string, number> = {}
+    const load = (id: string) =>
+      Effect.sync(() => {
+        runs[id] = (runs[id] ?? 0) + 1
+        return runs[id]
+      })
+
+    function Reader({ scope, id }: { scope: string; id: string }) {
+      const result = useRunEffect(load(`${scope}:${id}`), { key: [scope, id] })
+      return (
+        <div data-testid={`${scope}:${id}`}>
+          {result._tag === "Success" ? String(result.value) : result._tag}
+        </div>
+      )
+    }
+
+    function Invalidator() {
+      const invalidate = useInvalidate()
+      return (
+        <button data-testid="invalidate" onClick={() => invalidate(["tx"])}>
+          Invalidate
+        </button>
+      )
+    }
+
+    render(
+      <EffectProvider layer={TestLayer}>
+        <Reader scope="tx" id="acc-1" />
+        <Reader scope="tx" id="acc-2" />
+        <Reader scope="accounts" id="all" />
+        <Invalidator />
+      </EffectProvider>,
+    )
+
+    await act(async () => {
+      await new Promise((r) => setTimeout(r, 50))
+    })
+
+    fireEvent.click(screen.getByTestId("invalidate"))
+
+    await act(async () => {
+      await new Promise((r) => setTimeout(r, 50))
+    })
+
+    expect(screen.getByTestId("tx:acc-1").textContent).toBe("2")
+    expect(screen.getByTestId("tx:acc-2").textContent).toBe("2")
+    expect(screen.getByTestId("accounts:all").textContent).toBe("1")
+  })
+
+  it("keeps unsubscribed results cached until they are invalidated", async () => {
+    let runs = 0
+    const effect = Effect.sync(() => ++runs)
+
+    function Reader() {
+      const result = useRunEffect(effect, { key: ["cached"] })
+      return (
+        <div data-testid="result">
+          {result._tag === "Success" ? String(result.value) : result._tag}
+        </div>
+      )
+    }
+
+    function Invalidator() {
+      const invalidate = useInvalidate()
+      return (
+        <button data-testid="invalidate" onClick={() => invalidate(["cached"])}>
+          Invalidate
+        </button>
+      )
+    }
+
+    function App({ show }: { show: boolean }) {
+      return (
+        <EffectProvider layer={TestLayer}>
+          {show ? <Reader /> : null}
+          <Invalidator />
+        </EffectProvider>
+      )
+    }
+
+    const { rerender } = render(<App show={true} />)
+
+    await act(async () => {
+      await new Promise((r) => setTimeout(r, 50))
+    })
+
+    rerender(<App show={false} />)
+    rerender(<App show={true} />)
+
+    // Remounting reads the cached result — no second run
+    expect(screen.getByTestId("result").textContent).toBe("1")
+
+    rerender(<App show={false} />)
+    fireEvent.click(screen.getByTestId("invalidate"))
+    rerender(<App show={true} />)
+
+    await act(async () => {
+      await new Promise((r) => setTimeout(r, 50))
+    })
+
+    expect(screen.getByTestId("result").textContent).toBe("2")
+    expect(runs).toBe(2)
+  })
+
+  it("can be called from a useEffectCallback onSuccess handler", async () => {
+    let balance = 100
+
+    function Balance() {
+      const result = useRunEffect(Effect.sync(() => balance), { key: ["balance"] })
+      return (
+        <div data-testid="balance">
+          {result._tag === "Success" ? String(result.value) : result._tag}
+        </div>
+      )
+    }
+
+    function Withdraw() {
+      const invalidate = useInvalidate()
+      const { run } = useEffectCallback(
+        (amount: number) => Effect.sync(() => { balance -= amount }),
+        { onSuccess: () => invalidate(["balance"]) },
+      )
+      return (
+        <button data-testid="withdraw" onClick={() => run(30)}>
+          Withdraw
+        </button>
+      )
+    }
+
+    render(
+      <EffectProvider layer={TestLayer}>
+        <Balance />
+        <Withdraw />
+      </EffectProvider>,
+    )
+
+    await act(async () => {
+      await new Promise((r) => setTimeout(r, 50))
+    })
+
+    expect(screen.getByTestId("balance").textContent).toBe("100")
+
+    fireEvent.click(screen.getByTestId("withdraw"))
+
+    await act(async () => {
+      await new Promise((r) => setTimeout(r, 50))
+    })
+
+    expect(screen.getByTestId("balance").textContent).toBe("70")
+  })
+
+  it("scopes keys to their provider", async () => {
+    function Reader({ testId, value }: { testId: string; value: string }) {
+      const result = useRunEffect(Effect.succeed(value), { key: ["same"] })
+      return (
+        <div data-testid={testId}>
+          {result._tag === "Success" ? result.value : result._tag}
+        </div>
+      )
+    }
+
+    render(
+      <EffectProvider layer={TestLayer}>
+        <Reader testId="outer" value="outer" />
+        <EffectProvider layer={TestLayer}>
+          <Reader testId="inner" value="inner" />
+        </EffectProvider>
+      </EffectProvider>,
+    )
+
+    await act(async () => {
+      await new Promise((r) => setTimeout(r, 50))
+    })
+
+    expect(screen.getByTestId("outer").textContent).toBe("outer")
+    expect(screen.getByTestId("inner").textContent).toBe("inner")
+  })
+})
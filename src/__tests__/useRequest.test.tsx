@@ -0,0 +1,241 @@
+import { describe, it, expect } from "vitest"
+import { render, screen, act, fireEvent } from "@testing-library/react"
+import * as React from "react"
+import { Context, Data, Effect, Fiber, Layer, Request, RequestResolver } from "effect"
+import { EffectProvider } from "../providers/EffectProvider.js"
+import { useRequest } from "../hooks/useRequest.js"
+import { useRequestCache } from "../hooks/useRequestCache.js"
+import { useInvalidate } from "../hooks/useInvalidate.js"
+import { batchAcrossFibers } from "../requests.js"
+
+class AccountNotFound extends Data.TaggedError("AccountNotFound")<{ readonly id: string }> {}
+
+interface GetAccount extends Request.Request<string, AccountNotFound> {
+  readonly _tag: "GetAccount"
+  readonly id: string
+}
+const GetAccount = Request.tagged<GetAccount>("GetAccount")
+
+const makeResolver = () => {
+  const calls: Array<ReadonlyArray<string>> = []
+  const resolver = RequestResolver.makeBatched((requests: ReadonlyArray<GetAccount>) =>
+    Effect.sync(() => calls.push(requests.map((r) => r.id))).pipe(
+      Effect.delay(5),
+      Effect.zipRight(
+        Effect.forEach(
+          requests,
+          (r) =>
+            r.id === "missing"
+              ? Request.fail(r, new AccountNotFound({ id: r.id }))
+              : Request.succeed(r, `Account ${r.id}`),
+          { discard: true },
+        ),
+      ),
+    ),
+  )
+  return { calls, resolver }
+}
+
+const settle = () =>
+  act(async () => {
+    await new Promise((r) => setTimeout(r, 50))
+  })
+
+class Region extends Context.Tag("Region")<Region, string>() {}
+
+function AccountRow({ id, resolver, keyed = false }: {
+  id: string
+  resolver: RequestResolver.RequestResolver<GetAccount>
+  keyed?: boolean
+}) {
+  const result = useRequest(GetAccount({ id }), resolver, keyed ? { key: ["account", id] } : undefined)
+  return (
+    <span data-testid={`row-${id}`}>
+      {result._tag === "Success" ? result.value : result._tag === "Failure" ? result.error._tag : result._tag}
+    </span>
+  )
+}
+
+function ClearButton() {
+  const requests = useRequestCache()
+  const invalidate = useInvalidate()
+  return (
+    <>
+      <button data-testid="clear" onClick={requests.clear}>Clear</button>
+      <button data-testid="invalidate-a" onClick={() => requests.invalidate(GetAccount({ id: "a" }))}>
+        Invalidate a
+      </button>
+      <button data-testid="rerun" onClick={() => invalidate(["account"])}>Re-run</button>
+    </>
+  )
+}
+
+describe("useRequest", () => {
+  it("resolves the requests of one commit in a single batch", async () => {
+    const { calls, resolver } = makeResolver()
+
+    render(
+      <EffectProvider layer={Layer.empty}>
+        <AccountRow id="a" resolver={resolver} />
+        <AccountRow id="b" resolver={resolver} />
+        <AccountRow id="missing" resolver={resolver} />
+      </EffectProvider>,
+    )
+
+    expect(screen.getByTestId("row-a").textContent).toBe("Loading")
+    await settle()
+
+    expect(calls).toHaveLength(1)
+    expect([...calls[0]].sort()).toEqual(["a", "b", "missing"])
+    expect(screen.getByTestId("row-a").textContent).toBe("Account a")
+    expect(screen.getByTestId("row-b").textContent).toBe("Account b")
+    expect(screen.getByTestId("row-missing").textContent).toBe("AccountNotFound")
+  })
+
+  it("resolves identical requests once under a provider with a request cache", async () => {
+    const { calls, resolver } = makeResolver()
+
+    function App({ show }: { show: boolean }) {
+      return (
+        <EffectProvider layer={Layer.empty} requestCache>
+          <AccountRow id="a" resolver={resolver} />
+          {show && <AccountRow id="a" resolver={resolver} />}
+          <ClearButton />
+        </EffectProvider>
+      )
+    }
+
+    const { rerender } = render(<App show={false} />)
+    await settle()
+    expect(calls).toEqual([["a"]])
+
+    rerender(<App show />)
+    await settle()
+    expect(calls).toEqual([["a"]])
+    expect(screen.getAllByText("Account a")).toHaveLength(2)
+
+    fireEvent.click(screen.getByTestId("clear"))
+    rerender(<App show={false} />)
+    rerender(<App show />)
+    await settle()
+    expect(calls).toEqual([["a"], ["a"]])
+  })
+
+  it("resolves requests again once they are cleared from the request cache", async () => {
+    const { calls, resolver } = makeResolver()
+
+    render(
+      <EffectProvider layer={Layer.empty} requestCache>
+        <AccountRow id="a" resolver={resolver} keyed />
+        <AccountRow id="b" resolver={resolver} keyed />
+        <ClearButton />
+      </EffectProvider>,
+    )
+    await settle()
+    expect(calls).toHaveLength(1)
+
+    // Cached requests are reused by a re-run
+    fireEvent.click(screen.getByTestId("rerun"))
+    await settle()
+    expect(calls).toHaveLength(1)
+
+    fireEvent.click(screen.getByTestId("invalidate-a"))
+    fireEvent.click(screen.getByTestId("rerun"))
+    await settle()
+    expect(calls.slice(1)).toEqual([["a"]])
+
+    fireEvent.click(screen.getByTestId("clear"))
+    fireEvent.click(screen.getByTestId("rerun"))
+    await settle()
+    expect(calls).toHaveLength(3)
+    expect([...calls[2]].sort()).toEqual(["a", "b"])
+    expect(screen.getByTestId("row-a").textContent).toBe("Account a")
+  })
+
+  it("resolves the requests of each provider with its own services", async () => {
+    const calls: Array<string> = []
+    const resolver = RequestResolver.makeBatched((requests: ReadonlyArray<GetAccount>) =>
+      Effect.flatMap(Region, (region) => {
+        calls.push(region)
+        return Effect.forEach(requests, (r) => Request.succeed(r, `${region}:${r.id}`), { discard: true })
+      }),
+    )
+
+    function Row({ id }: { id: string }) {
+      const result = useRequest(GetAccount({ id }), resolver)
+      return <span data-testid={`row-${id}`}>{result._tag === "Success" ? result.value : result._tag}</span>
+    }
+
+    render(
+      <>
+        <EffectProvider layer={Layer.succeed(Region, "eu")}>
+          <Row id="a" />
+        </EffectProvider>
+        <EffectProvider layer={Layer.succeed(Region, "us")}>
+          <Row id="b" />
+        </EffectProvider>
+      </>,
+    )
+    await settle()
+
+    expect(calls.sort()).toEqual(["eu", "us"])
+    expect(screen.getByTestId("row-a").textContent).toBe("eu:a")
+    expect(screen.getByTestId("row-b").textContent).toBe("us:b")
+  })
+
+  it("leaves out the requests of fibers interrupted before the batch is sent", async () => {
+    const { calls, resolver } = makeResolver()
+    const batched = batchAcrossFibers(resolver)
+
+    const value = await Effect.gen(function* () {
+      const a = yield* Effect.fork(Effect.request(GetAccount({ id: "a" }), batched))
+      const b = yield* Effect.fork(Effect.request(GetAccount({ id: "b" }), batched))
+      // Wait until b waits for the batch to be sent
+      yield* Fiber.status(b).pipe(
+        Effect.zipLeft(Effect.yieldNow()),
+        Effect.repeat({ until: (status) => status._tag === "Suspended" }),
+      )
+      yield* Fiber.interrupt(b)
+      return yield* Fiber.join(a)
+    }).pipe(Effect.runPromise)
+
+    expect(value).toBe("Account a")
+    expect(calls).toEqual([["a"]])
+  })
+
+  it("resolves every request without a request cache", async () => {
+    const { calls, resolver } = makeResolver()
+
+    const { rerender } = render(
+      <EffectProvider layer={Layer.empty}>
+        <AccountRow key="first" id="a" resolver={resolver} />
+      </EffectProvider>,
+    )
+    await settle()
+
+    rerender(
+      <EffectProvider layer={Layer.empty}>
+        <AccountRow key="second" id="a" resolver={resolver} />
+      </EffectProvider>,
+    )
+    await settle()
+
+    expect(calls).toEqual([["a"], ["a"]])
+  })
+
+  it("useRequestCache throws outside a provider with a request cache", () => {
+    const spy = console.error
+    console.error = () => {}
+    try {
+      expect(() =>
+        render(
+          <EffectProvider layer={Layer.empty}>
+            <ClearButton />
+          </EffectProvider>,
+        ),
+      ).toThrow(/No request cache found/)
+    } finally {
+      console.error = spy
+    }
+  })
+})
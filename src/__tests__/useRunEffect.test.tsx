@@ -1,9 +1,11 @@
 import { describe, it, expect } from "vitest"
 import { render, screen, act } from "@testing-library/react"
 import * as React from "react"
-import { Effect, Layer } from "effect"
+import { Cause, Effect, Layer, Schedule } from "effect"
 import { EffectProvider } from "../providers/EffectProvider.js"
 import { useRunEffect } from "../hooks/useRunEffect.js"
+import { renderWithLayer } from "../testing.js"
+import type { EffectResult } from "../types.js"
 
 const TestLayer = Layer.empty
 
@@ -115,4 +117,445 @@ describe("useRunEffect", () => {
 
     expect(screen.getByTestId("result").textContent).toBe("delayed")
   })
+
+  it("shares one fiber and result between components using the same key", async () => {
+    let runs = 0
+    const effect = Effect.sync(() => ++runs).pipe(Effect.delay("10 millis"))
+
+    function Test({ testId }: { testId: string }) {
+      const result = useRunEffect(effect, { key: ["counter"] })
+      return (
+        <div data-testid={testId}>
+          {result._tag === "Success" ? String(result.value) : result._tag}
+        </div>
+      )
+    }
+
+    render(
+      <>
+        <Test testId="a" />
+        <Test testId="b" />
+      </>,
+      { wrapper },
+    )
+
+    await act(async () => {
+      await new Promise((r) => setTimeout(r, 100))
+    })
+
+    expect(screen.getByTestId("a").textContent).toBe("1")
+    expect(screen.getByTestId("b").textContent).toBe("1")
+    expect(runs).toBe(1)
+  })
+
+  it("surfaces defects as Defect with the full Cause", async () => {
+    function Test() {
+      const result = useRunEffect(Effect.die(new Error("kaboom")))
+      return (
+        <div data-testid="result">
+          {result._tag === "Defect"
+            ? `${String(result.defect)} / ${Cause.isDie(result.cause)}`
+            : result._tag}
+        </div>
+      )
+    }
+
+    render(<Test />, { wrapper })
+
+    await act(async () => {
+      await new Promise((r) => setTimeout(r, 50))
+    })
+
+    expect(screen.getByTestId("result").textContent).toBe("Error: kaboom / true")
+  })
+
+  it("surfaces exceptions thrown inside Effect.sync as Defect", async () => {
+    function Test() {
+      const result = useRunEffect(
+        Effect.sync(() => {
+          throw new Error("thrown")
+        }),
+      )
+      return <div data-testid="result">{result._tag}</div>
+    }
+
+    render(<Test />, { wrapper })
+
+    await act(async () => {
+      await new Promise((r) => setTimeout(r, 50))
+    })
+
+    expect(screen.getByTestId("result").textContent).toBe("Defect")
+  })
+
+  it("keeps the full Cause on Failure", async () => {
+    function Test() {
+      const result = useRunEffect(Effect.fail("boom"))
+      return (
+        <div data-testid="result">
+          {result._tag === "Failure" ? String(Cause.isFailType(result.cause)) : result._tag}
+        </div>
+      )
+    }
+
+    render(<Test />, { wrapper })
+
+    await act(async () => {
+      await new Promise((r) => setTimeout(r, 50))
+    })
+
+    expect(screen.getByTestId("result").textContent).toBe("true")
+  })
+
+  it("retries failures and reports the attempt while retrying", async () => {
+    let attempts = 0
+    const effect = Effect.suspend(() => {
+      attempts++
+      return attempts < 3 ? Effect.fail("flaky") : Effect.succeed("ok")
+    })
+    const seen: Array<string> = []
+
+    function Test() {
+      const result = useRunEffect(effect, {
+        retry: { schedule: Schedule.spaced("10 millis") },
+      })
+      const label =
+        result._tag === "Loading"
+          ? `Loading:${result.attempt ?? 1}`
+          : result._tag === "Success" ? result.value : result._tag
+      seen.push(label)
+      return <div data-testid="result">{label}</div>
+    }
+
+    render(<Test />, { wrapper })
+
+    await act(async () => {
+      await new Promise((r) => setTimeout(r, 100))
+    })
+
+    expect(screen.getByTestId("result").textContent).toBe("ok")
+    expect(attempts).toBe(3)
+    expect(seen).toContain("Loading:2")
+  })
+
+  it("stops retrying when the while predicate rejects the error", async () => {
+    let attempts = 0
+    const effect = Effect.suspend(() => {
+      attempts++
+      return Effect.fail(attempts === 1 ? "transient" : "fatal")
+    })
+
+    function Test() {
+      const result = useRunEffect(effect, {
+        retry: { schedule: Schedule.recurs(5), while: (error) => error === "transient" },
+      })
+      return (
+        <div data-testid="result">
+          {result._tag === "Failure" ? result.error : result._tag}
+        </div>
+      )
+    }
+
+    render(<Test />, { wrapper })
+
+    await act(async () => {
+      await new Promise((r) => setTimeout(r, 50))
+    })
+
+    expect(screen.getByTestId("result").textContent).toBe("fatal")
+    expect(attempts).toBe(2)
+  })
+
+  describe("keyed effects", () => {
+    it("share one fiber, interrupted only when the last subscriber unmounts", async () => {
+      let started = 0
+      let interrupted = 0
+      const load = Effect.sync(() => ++started).pipe(
+        Effect.zipRight(Effect.sleep("10 seconds")),
+        Effect.as("accounts"),
+        Effect.onInterrupt(() => Effect.sync(() => ++interrupted)),
+      )
+      function Accounts({ id }: { id: string }) {
+        const result = useRunEffect(load, { key: ["accounts"] })
+        return <div data-testid={id}>{result._tag === "Success" ? result.value : result._tag}</div>
+      }
+
+      const { getByTestId, rerender, advanceTime } = renderWithLayer(
+        <>
+          <Accounts id="dashboard" />
+          <Accounts id="form" />
+        </>,
+        TestLayer,
+      )
+      expect(started).toBe(1)
+
+      rerender(<Accounts id="dashboard" />)
+      await advanceTime(0)
+      expect(interrupted).toBe(0)
+
+      rerender(<></>)
+      await advanceTime(0)
+      expect(interrupted).toBe(1)
+
+      // The interrupted entry runs again for its next subscriber
+      rerender(<Accounts id="again" />)
+      expect(started).toBe(2)
+      await advanceTime("10 seconds")
+      expect(getByTestId("again").textContent).toBe("accounts")
+    })
+
+    it("re-run the shared entry when deps change under the same key", async () => {
+      let runs = 0
+      function Report({ filter }: { filter: string }) {
+        const result = useRunEffect(
+          Effect.sync(() => `${filter} ${++runs}`),
+          { key: ["report"], deps: [filter] },
+        )
+        return <div data-testid="report">{result._tag === "Success" ? result.value : result._tag}</div>
+      }
+
+      const { getByTestId, rerender, advanceTime } = renderWithLayer(<Report filter="open" />, TestLayer)
+      await advanceTime(0)
+      expect(getByTestId("report").textContent).toBe("open 1")
+
+      rerender(<Report filter="open" />)
+      await advanceTime(0)
+      expect(runs).toBe(1)
+
+      rerender(<Report filter="closed" />)
+      await advanceTime(0)
+      expect(getByTestId("report").textContent).toBe("closed 2")
+    })
+
+    it("drop entries left without subscribers for gcTime", async () => {
+      let runs = 0
+      const load = Effect.sync(() => ++runs)
+      function Accounts() {
+        const result = useRunEffect(load, { key: ["accounts"] })
+        return <div data-testid="accounts">{result._tag === "Success" ? result.value : result._tag}</div>
+      }
+      function App({ mounted }: { mounted: boolean }) {
+        return <EffectProvider layer={TestLayer} gcTime={30}>{mounted && <Accounts />}</EffectProvider>
+      }
+      const wait = (millis: number) =>
+        act(async () => {
+          await new Promise((r) => setTimeout(r, millis))
+        })
+
+      const { rerender } = render(<App mounted />)
+      await wait(5)
+      expect(screen.getByTestId("accounts").textContent).toBe("1")
+
+      // Remounted within gcTime: the cached result is reused
+      rerender(<App mounted={false} />)
+      rerender(<App mounted />)
+      await wait(5)
+      expect(screen.getByTestId("accounts").textContent).toBe("1")
+
+      rerender(<App mounted={false} />)
+      await wait(60)
+      rerender(<App mounted />)
+      await wait(5)
+      expect(screen.getByTestId("accounts").textContent).toBe("2")
+    })
+  })
+
+  describe("refetch", () => {
+    function Polled({ load, id = "result" }: { load: Effect.Effect<number>; id?: string }) {
+      const result = useRunEffect(load, { refetch: Schedule.spaced("10 seconds") })
+      return (
+        <div data-testid={id}>
+          {result._tag === "Success" ? `${result.value}${result.isRefreshing ? " refreshing" : ""}` : result._tag}
+        </div>
+      )
+    }
+
+    const setHidden = (hidden: boolean) => {
+      Object.defineProperty(document, "hidden", { configurable: true, get: () => hidden })
+      act(() => {
+        document.dispatchEvent(new Event("visibilitychange"))
+      })
+    }
+
+    it("re-runs on the schedule while the previous value stays visible", async () => {
+      let runs = 0
+      const load = Effect.sync(() => ++runs).pipe(Effect.delay("1 second"))
+      const { getByTestId, advanceTime } = renderWithLayer(<Polled load={load} />, TestLayer)
+
+      await advanceTime("1 second")
+      expect(getByTestId("result").textContent).toBe("1")
+
+      // The schedule starts on mount
+      await advanceTime("9 seconds")
+      expect(getByTestId("result").textContent).toBe("1 refreshing")
+
+      await advanceTime("1 second")
+      expect(getByTestId("result").textContent).toBe("2")
+    })
+
+    it("pauses while the document is hidden and refreshes when it is visible again", async () => {
+      let runs = 0
+      const load = Effect.sync(() => ++runs)
+      const { getByTestId, advanceTime } = renderWithLayer(<Polled load={load} />, TestLayer)
+
+      await advanceTime("10 seconds")
+      expect(runs).toBe(2)
+
+      try {
+        setHidden(true)
+        await advanceTime("1 minute")
+        expect(runs).toBe(2)
+
+        setHidden(false)
+        await advanceTime(0)
+        expect(runs).toBe(3)
+        expect(getByTestId("result").textContent).toBe("3")
+
+        await advanceTime("10 seconds")
+        expect(runs).toBe(4)
+      } finally {
+        delete (document as { hidden?: boolean }).hidden
+      }
+    })
+
+    it("keeps the Success visible while a failed refetch retries", async () => {
+      function Retried({ load, keyed }: { load: Effect.Effect<number, string>; keyed?: boolean }) {
+        const result = useRunEffect(load, {
+          key: keyed ? ["retried"] : undefined,
+          refetch: Schedule.spaced("10 seconds"),
+          retry: { schedule: Schedule.spaced("1 second") },
+        })
+        const label =
+          result._tag === "Success"
+            ? `${result.value}${result.attempt ? ` attempt ${result.attempt}` : ""}`
+            : result._tag
+        seen.push(label)
+        return <div data-testid="result">{label}</div>
+      }
+
+      const seen: Array<string> = []
+      for (const keyed of [false, true]) {
+        let runs = 0
+        // The refetch fails once, and its retry takes a second
+        const load = Effect.suspend(() => {
+          const run = ++runs
+          return run === 2 ? Effect.fail("flaky") : Effect.delay(Effect.succeed(run), run === 3 ? "1 second" : 0)
+        })
+        const { getByTestId, advanceTime, unmount } = renderWithLayer(<Retried load={load} keyed={keyed} />, TestLayer)
+
+        await advanceTime(0)
+        expect(getByTestId("result").textContent).toBe("1")
+
+        seen.length = 0
+        await advanceTime("10 seconds")
+        expect(getByTestId("result").textContent).toBe("1")
+
+        await advanceTime("1 second")
+        expect(getByTestId("result").textContent).toBe("1 attempt 2")
+
+        await advanceTime("1 second")
+        expect(getByTestId("result").textContent).toBe("3")
+        expect(seen).not.toContain("Loading")
+        unmount()
+      }
+    })
+
+    it("refreshes a keyed effect once per tick for all its subscribers", async () => {
+      let runs = 0
+      function Keyed({ id }: { id: string }) {
+        const result = useRunEffect(Effect.sync(() => ++runs), {
+          key: ["polled"],
+          refetch: Schedule.spaced("10 seconds"),
+        })
+        return <div data-testid={id}>{result._tag === "Success" ? result.value : result._tag}</div>
+      }
+
+      const { getByTestId, advanceTime } = renderWithLayer(
+        <>
+          <Keyed id="a" />
+          <Keyed id="b" />
+        </>,
+        TestLayer,
+      )
+
+      await advanceTime("10 seconds")
+      expect(runs).toBe(2)
+      expect(getByTestId("a").textContent).toBe("2")
+      expect(getByTestId("b").textContent).toBe("2")
+    })
+  })
+
+  describe("keepPreviousData", () => {
+    function Describe({ result }: { result: EffectResult<string, string> }) {
+      if (result._tag !== "Success") return <div data-testid="result">{result._tag}</div>
+      return (
+        <div data-testid="result">
+          {result.value}
+          {result.previousDeps ? ` (stale: ${JSON.stringify(result.previousDeps)})` : ""}
+        </div>
+      )
+    }
+
+    it("shows the previous value, with its deps, while new deps load", async () => {
+      function Test({ id }: { id: number }) {
+        const result = useRunEffect(Effect.succeed(`item ${id}`).pipe(Effect.delay("1 second")), {
+          deps: [id],
+          keepPreviousData: true,
+        })
+        return <Describe result={result} />
+      }
+
+      const { getByTestId, rerender, advanceTime } = renderWithLayer(<Test id={1} />, TestLayer)
+      await advanceTime("1 second")
+      expect(getByTestId("result").textContent).toBe("item 1")
+
+      rerender(<Test id={2} />)
+      expect(getByTestId("result").textContent).toBe("item 1 (stale: [1])")
+
+      await advanceTime("1 second")
+      expect(getByTestId("result").textContent).toBe("item 2")
+    })
+
+    it("shows the previous key's value while a keyed effect loads", async () => {
+      function Test({ id }: { id: number }) {
+        const result = useRunEffect(Effect.succeed(`item ${id}`).pipe(Effect.delay("1 second")), {
+          key: ["item", id],
+          keepPreviousData: true,
+        })
+        return <Describe result={result} />
+      }
+
+      const { getByTestId, rerender, advanceTime } = renderWithLayer(<Test id={1} />, TestLayer)
+      await advanceTime("1 second")
+
+      rerender(<Test id={2} />)
+      expect(getByTestId("result").textContent).toBe('item 1 (stale: ["item",1])')
+
+      await advanceTime("1 second")
+      expect(getByTestId("result").textContent).toBe("item 2")
+
+      // Back to a cached key: its value shows at once
+      rerender(<Test id={1} />)
+      expect(getByTestId("result").textContent).toBe("item 1")
+    })
+
+    it("does not keep a value across a failure", async () => {
+      function Test({ id }: { id: number }) {
+        const result = useRunEffect(
+          (id === 2 ? Effect.fail("boom") : Effect.succeed(`item ${id}`)).pipe(Effect.delay("1 second")),
+          { deps: [id], keepPreviousData: true },
+        )
+        return <Describe result={result} />
+      }
+
+      const { getByTestId, rerender, advanceTime } = renderWithLayer(<Test id={1} />, TestLayer)
+      await advanceTime("1 second")
+      rerender(<Test id={2} />)
+      await advanceTime("1 second")
+      expect(getByTestId("result").textContent).toBe("Failure")
+
+      rerender(<Test id={3} />)
+      expect(getByTestId("result").textContent).toBe("Loading")
+    })
+  })
 })
@@ -0,0 +1,142 @@
+import { describe, it, expect } from "vitest"
+import { act } from "@testing-library/react"
+import * as React from "react"
+import { Effect, Exit, Layer } from "effect"
+import { useRunEffect } from "../hooks/useRunEffect.js"
+import { useRunEffectControls } from "../hooks/useRunEffectControls.js"
+import { renderHookWithLayer, renderWithLayer } from "../testing.js"
+
+const TestLayer = Layer.empty
+
+describe("useRunEffectControls", () => {
+  it("cancels a slow load into Interrupted and starts over on refetch", async () => {
+    const { result, advanceTime } = renderHookWithLayer(
+      () => useRunEffectControls(Effect.succeed("report").pipe(Effect.delay("10 seconds"))),
+      TestLayer,
+    )
+    expect(result.current.result._tag).toBe("Loading")
+    expect(result.current.lastExit).toBeNull()
+
+    act(() => result.current.cancel())
+    expect(result.current.result._tag).toBe("Interrupted")
+    expect(result.current.lastExit && Exit.isInterrupted(result.current.lastExit)).toBe(true)
+
+    // The cancelled run does not complete later
+    await advanceTime("10 seconds")
+    expect(result.current.result._tag).toBe("Interrupted")
+
+    act(() => result.current.refetch())
+    expect(result.current.result._tag).toBe("Loading")
+
+    await advanceTime("10 seconds")
+    expect(result.current.result).toEqual({ _tag: "Success", value: "report" })
+    expect(result.current.lastExit).toEqual(Exit.succeed("report"))
+  })
+
+  it("retries after a failure and keeps a Success visible while refetching", async () => {
+    let attempts = 0
+    const load = Effect.suspend(() =>
+      ++attempts === 1 ? Effect.fail("offline") : Effect.succeed(attempts),
+    ).pipe(Effect.delay("1 second"))
+
+    const { result, advanceTime } = renderHookWithLayer(() => useRunEffectControls(load), TestLayer)
+    await advanceTime("1 second")
+    expect(result.current.result._tag).toBe("Failure")
+    expect(result.current.lastExit).toEqual(Exit.fail("offline"))
+
+    act(() => result.current.refetch())
+    expect(result.current.result._tag).toBe("Loading")
+    await advanceTime("1 second")
+    expect(result.current.result).toEqual({ _tag: "Success", value: 2 })
+
+    act(() => result.current.refetch())
+    expect(result.current.result).toMatchObject({ _tag: "Success", value: 2 })
+    expect(result.current.isRefreshing).toBe(true)
+
+    await advanceTime("1 second")
+    expect(result.current.result).toEqual({ _tag: "Success", value: 3 })
+    expect(result.current.isRefreshing).toBe(false)
+  })
+
+  it("leaves the previous Success when a refresh is cancelled", async () => {
+    const { result, advanceTime } = renderHookWithLayer(
+      () => useRunEffectControls(Effect.succeed(1).pipe(Effect.delay("1 second"))),
+      TestLayer,
+    )
+    await advanceTime("1 second")
+
+    act(() => result.current.refetch())
+    expect(result.current.isRefreshing).toBe(true)
+
+    act(() => result.current.cancel())
+    expect(result.current.result).toEqual({ _tag: "Success", value: 1 })
+    expect(result.current.isRefreshing).toBe(false)
+  })
+
+  it("cancels and refetches a keyed effect for every component using the key", async () => {
+    let runs = 0
+    const load = Effect.sync(() => ++runs).pipe(Effect.delay("5 seconds"))
+    let controls: ReturnType<typeof useRunEffectControls<number, never, never>> | null = null
+
+    function WithControls() {
+      controls = useRunEffectControls(load, { key: ["report"] })
+      return <div data-testid="controls">{controls.result._tag}</div>
+    }
+    function Other() {
+      const { result } = useRunEffectControls(load, { key: ["report"] })
+      return <div data-testid="other">{result._tag === "Success" ? result.value : result._tag}</div>
+    }
+
+    const { getByTestId, advanceTime } = renderWithLayer(
+      <>
+        <WithControls />
+        <Other />
+      </>,
+      TestLayer,
+    )
+
+    act(() => controls!.cancel())
+    expect(getByTestId("controls").textContent).toBe("Interrupted")
+    expect(getByTestId("other").textContent).toBe("Interrupted")
+
+    act(() => controls!.refetch())
+    await advanceTime("5 seconds")
+    expect(getByTestId("controls").textContent).toBe("Success")
+    expect(getByTestId("other").textContent).toBe("1")
+    expect(runs).toBe(1)
+  })
+
+  it("re-runs a cancelled keyed effect for the plain useRunEffect readers of the key", async () => {
+    let runs = 0
+    const load = Effect.sync(() => ++runs).pipe(Effect.delay("5 seconds"))
+    let controls: ReturnType<typeof useRunEffectControls<number, never, never>> | null = null
+
+    function WithControls() {
+      controls = useRunEffectControls(load, { key: ["report"] })
+      return <div data-testid="controls">{controls.result._tag}</div>
+    }
+    function Plain({ id }: { id: string }) {
+      const result = useRunEffect(load, { key: ["report"] })
+      return <div data-testid={id}>{result._tag === "Success" ? result.value : result._tag}</div>
+    }
+
+    const { getByTestId, advanceTime } = renderWithLayer(
+      <>
+        <WithControls />
+        <Plain id="first" />
+        <Plain id="second" />
+      </>,
+      TestLayer,
+    )
+
+    // The plain readers cannot show Interrupted — they still need the value
+    act(() => controls!.cancel())
+    expect(getByTestId("first").textContent).toBe("Loading")
+
+    await advanceTime("5 seconds")
+    expect(getByTestId("first").textContent).toBe("1")
+    expect(getByTestId("second").textContent).toBe("1")
+    expect(getByTestId("controls").textContent).toBe("Success")
+    expect(runs).toBe(1)
+  })
+})
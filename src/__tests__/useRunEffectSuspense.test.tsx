@@ -0,0 +1,228 @@
+import { describe, it, expect } from "vitest"
+import { render, screen, act } from "@testing-library/react"
+import * as React from "react"
+import { Cause, Effect, Layer, Runtime } from "effect"
+import { EffectProvider } from "../providers/EffectProvider.js"
+import { useRunEffectSuspense } from "../hooks/useRunEffectSuspense.js"
+
+const TestLayer = Layer.empty
+
+class CatchBoundary extends React.Component<
+  { children: React.ReactNode },
+  { error: unknown }
+> {
+  state = { error: null as unknown }
+
+  static getDerivedStateFromError(error: unknown) {
+    return { error }
+  }
+
+  render() {
+    if (this.state.error !== null) {
+      const error = this.state.error
+      const message = Runtime.isFiberFailure(error)
+        ? String(Cause.squash(error[Runtime.FiberFailureCauseId]))
+        : "unknown"
+      return <div data-testid="caught">{message}</div>
+    }
+    return this.props.children
+  }
+}
+
+describe("useRunEffectSuspense", () => {
+  it("suspends while the effect runs, then renders the plain value", async () => {
+    function Test() {
+      const value = useRunEffectSuspense(
+        Effect.delay(Effect.succeed("loaded"), "20 millis"),
+        { key: ["value"] },
+      )
+      return <div data-testid="result">{value}</div>
+    }
+
+    render(
+      <EffectProvider layer={TestLayer}>
+        <React.Suspense fallback={<div data-testid="fallback">waiting</div>}>
+          <Test />
+        </React.Suspense>
+      </EffectProvider>,
+    )
+
+    expect(screen.getByTestId("fallback").textContent).toBe("waiting")
+
+    await act(async () => {
+      await new Promise((r) => setTimeout(r, 100))
+    })
+
+    expect(screen.getByTestId("result").textContent).toBe("loaded")
+  })
+
+  it("throws a FiberFailure with the Cause to the nearest error boundary", async () => {
+    function Test() {
+      const value = useRunEffectSuspense(Effect.fail("boom"), { key: ["fail"] })
+      return <div>{String(value)}</div>
+    }
+
+    const originalError = console.error
+    console.error = () => {}
+    try {
+      render(
+        <EffectProvider layer={TestLayer}>
+          <CatchBoundary>
+            <React.Suspense fallback={<div>waiting</div>}>
+              <Test />
+            </React.Suspense>
+          </CatchBoundary>
+        </EffectProvider>,
+      )
+
+      await act(async () => {
+        await new Promise((r) => setTimeout(r, 50))
+      })
+    } finally {
+      console.error = originalError
+    }
+
+    expect(screen.getByTestId("caught").textContent).toBe("boom")
+  })
+
+  it("shares one fiber between components rendering the same key", async () => {
+    let runs = 0
+    const effect = Effect.sync(() => ++runs).pipe(Effect.delay("10 millis"))
+
+    function Test({ testId }: { testId: string }) {
+      const value = useRunEffectSuspense(effect, { key: ["shared"] })
+      return <div data-testid={testId}>{value}</div>
+    }
+
+    render(
+      <EffectProvider layer={TestLayer}>
+        <React.Suspense fallback={<div>waiting</div>}>
+          <Test testId="a" />
+          <Test testId="b" />
+        </React.Suspense>
+      </EffectProvider>,
+    )
+
+    await act(async () => {
+      await new Promise((r) => setTimeout(r, 100))
+    })
+
+    expect(screen.getByTestId("a").textContent).toBe("1")
+    expect(screen.getByTestId("b").textContent).toBe("1")
+    expect(runs).toBe(1)
+  })
+
+  it("re-runs the effect when the key changes", async () => {
+    function Test({ value }: { value: number }) {
+      const doubled = useRunEffectSuspense(
+        Effect.delay(Effect.succeed(value * 2), "10 millis"),
+        { key: ["double", value] },
+      )
+      return <div data-testid="result">{doubled}</div>
+    }
+
+    function App({ value }: { value: number }) {
+      return (
+        <EffectProvider layer={TestLayer}>
+          <React.Suspense fallback={<div data-testid="fallback">waiting</div>}>
+            <Test value={value} />
+          </React.Suspense>
+        </EffectProvider>
+      )
+    }
+
+    const { rerender } = render(<App value={5} />)
+
+    await act(async () => {
+      await new Promise((r) => setTimeout(r, 100))
+    })
+
+    expect(screen.getByTestId("result").textContent).toBe("10")
+
+    rerender(<App value={10} />)
+
+    await act(async () => {
+      await new Promise((r) => setTimeout(r, 100))
+    })
+
+    expect(screen.getByTestId("result").textContent).toBe("20")
+  })
+
+  it("interrupts the fiber when the suspended subtree is abandoned", async () => {
+    let interrupted = false
+    const slow = Effect.never.pipe(
+      Effect.onInterrupt(() => Effect.sync(() => { interrupted = true })),
+    )
+
+    function Test() {
+      useRunEffectSuspense(slow, { key: ["abandoned"], abandonAfter: "30 millis" })
+      return null
+    }
+
+    function App({ show }: { show: boolean }) {
+      return (
+        <EffectProvider layer={TestLayer}>
+          {show ? (
+            <React.Suspense fallback={<div>waiting</div>}>
+              <Test />
+            </React.Suspense>
+          ) : null}
+        </EffectProvider>
+      )
+    }
+
+    const { rerender } = render(<App show={true} />)
+    rerender(<App show={false} />)
+
+    expect(interrupted).toBe(false)
+
+    await act(async () => {
+      await new Promise((r) => setTimeout(r, 100))
+    })
+
+    expect(interrupted).toBe(true)
+  })
+
+  it("evicts the entry when the last committed component unmounts", async () => {
+    let runs = 0
+    const effect = Effect.sync(() => ++runs)
+
+    function Test() {
+      const value = useRunEffectSuspense(effect, { key: ["evicted"] })
+      return <div data-testid="result">{value}</div>
+    }
+
+    function App({ show }: { show: boolean }) {
+      return (
+        <EffectProvider layer={TestLayer}>
+          <React.Suspense fallback={<div>waiting</div>}>
+            {show ? <Test /> : null}
+          </React.Suspense>
+        </EffectProvider>
+      )
+    }
+
+    const { rerender } = render(<App show={true} />)
+
+    await act(async () => {
+      await new Promise((r) => setTimeout(r, 50))
+    })
+
+    expect(screen.getByTestId("result").textContent).toBe("1")
+
+    rerender(<App show={false} />)
+
+    await act(async () => {
+      await new Promise((r) => setTimeout(r, 10))
+    })
+
+    rerender(<App show={true} />)
+
+    await act(async () => {
+      await new Promise((r) => setTimeout(r, 50))
+    })
+
+    expect(screen.getByTestId("result").textContent).toBe("2")
+    expect(runs).toBe(2)
+  })
+})
@@ -0,0 +1,159 @@
+import { describe, it, expect } from "vitest"
+import { render, screen, act } from "@testing-library/react"
+import * as React from "react"
+import { Effect, Layer } from "effect"
+import { EffectProvider } from "../providers/EffectProvider.js"
+import { useScoped } from "../hooks/useScoped.js"
+
+const TestLayer = Layer.empty
+
+describe("useScoped", () => {
+  it("keeps the resource open while mounted and releases it on unmount", async () => {
+    const log: Array<string> = []
+
+    function Test() {
+      const result = useScoped(
+        Effect.acquireRelease(
+          Effect.sync(() => {
+            log.push("open")
+            return "socket"
+          }),
+          () => Effect.sync(() => log.push("close")),
+        ),
+      )
+      return (
+        <div data-testid="result">
+          {result._tag === "Success" ? result.value : result._tag}
+        </div>
+      )
+    }
+
+    const { unmount } = render(
+      <EffectProvider layer={TestLayer}>
+        <Test />
+      </EffectProvider>,
+    )
+
+    await act(async () => {
+      await new Promise((r) => setTimeout(r, 50))
+    })
+
+    expect(screen.getByTestId("result").textContent).toBe("socket")
+    expect(log).toEqual(["open"])
+
+    unmount()
+
+    await act(async () => {
+      await new Promise((r) => setTimeout(r, 50))
+    })
+
+    expect(log).toEqual(["open", "close"])
+  })
+
+  it("releases the previous resource before acquiring for new deps", async () => {
+    const log: Array<string> = []
+
+    function Test({ id }: { id: string }) {
+      const result = useScoped(
+        Effect.acquireRelease(
+          Effect.sync(() => {
+            log.push(`open ${id}`)
+            return id
+          }),
+          () => Effect.sync(() => log.push(`close ${id}`)),
+        ),
+        { deps: [id] },
+      )
+      return (
+        <div data-testid="result">
+          {result._tag === "Success" ? result.value : result._tag}
+        </div>
+      )
+    }
+
+    const { rerender } = render(
+      <EffectProvider layer={TestLayer}>
+        <Test id="a" />
+      </EffectProvider>,
+    )
+
+    await act(async () => {
+      await new Promise((r) => setTimeout(r, 50))
+    })
+
+    rerender(
+      <EffectProvider layer={TestLayer}>
+        <Test id="b" />
+      </EffectProvider>,
+    )
+
+    await act(async () => {
+      await new Promise((r) => setTimeout(r, 50))
+    })
+
+    expect(screen.getByTestId("result").textContent).toBe("b")
+    expect(log).toEqual(["open a", "close a", "open b"])
+  })
+
+  it("interrupts a running effect before running its finalizers", async () => {
+    const log: Array<string> = []
+
+    function Test() {
+      const result = useScoped(
+        Effect.acquireRelease(
+          Effect.sync(() => log.push("open")),
+          () => Effect.sync(() => log.push("close")),
+        ).pipe(
+          Effect.zipRight(Effect.never),
+          Effect.onInterrupt(() => Effect.sync(() => log.push("interrupted"))),
+        ),
+      )
+      return <div data-testid="result">{result._tag}</div>
+    }
+
+    const { unmount } = render(
+      <EffectProvider layer={TestLayer}>
+        <Test />
+      </EffectProvider>,
+    )
+
+    await act(async () => {
+      await new Promise((r) => setTimeout(r, 50))
+    })
+
+    expect(screen.getByTestId("result").textContent).toBe("Loading")
+
+    unmount()
+
+    await act(async () => {
+      await new Promise((r) => setTimeout(r, 50))
+    })
+
+    expect(log).toEqual(["open", "interrupted", "close"])
+  })
+
+  it("surfaces acquisition failures as Failure", async () => {
+    function Test() {
+      const result = useScoped(
+        Effect.acquireRelease(Effect.fail("refused"), () => Effect.void),
+      )
+      return (
+        <div data-testid="result">
+          {result._tag === "Failure" ? result.error : result._tag}
+        </div>
+      )
+    }
+
+    render(
+      <EffectProvider layer={TestLayer}>
+        <Test />
+      </EffectProvider>,
+    )
+
+    await act(async () => {
+      await new Promise((r) => setTimeout(r, 50))
+    })
+
+    expect(screen.getByTestId("result").textContent).toBe("refused")
+  })
+})
@@ -54,4 +54,28 @@ describe("useService", () => {
 
     expect(screen.getByTestId("tag").textContent).toBe("Loading")
   })
+
+  it("resolves to Defect when no provider supplies the service", async () => {
+    class MissingService extends Context.Tag("MissingService")<
+      MissingService,
+      { readonly value: string }
+    >() {}
+
+    function Test() {
+      const result = useService(MissingService)
+      return <div data-testid="tag">{result._tag}</div>
+    }
+
+    render(
+      <EffectProvider layer={TestLayer}>
+        <Test />
+      </EffectProvider>,
+    )
+
+    await act(async () => {
+      await new Promise((r) => setTimeout(r, 50))
+    })
+
+    expect(screen.getByTestId("tag").textContent).toBe("Defect")
+  })
 })
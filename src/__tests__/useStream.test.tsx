@@ -0,0 +1,178 @@
+import { describe, it, expect } from "vitest"
+import { render, screen, act } from "@testing-library/react"
+import * as React from "react"
+import { type Duration, Chunk, Effect, Layer, Option, Stream } from "effect"
+import { EffectProvider } from "../providers/EffectProvider.js"
+import { useStream } from "../hooks/useStream.js"
+
+const TestLayer = Layer.empty
+
+function wrapper({ children }: { children: React.ReactNode }) {
+  return <EffectProvider layer={TestLayer}>{children}</EffectProvider>
+}
+
+const ticks = (values: ReadonlyArray<number>, delay: Duration.DurationInput) =>
+  Stream.fromIterable(values).pipe(
+    Stream.tap(() => Effect.sleep(delay)),
+  )
+
+describe("useStream", () => {
+  it("starts in Waiting state", () => {
+    function Test() {
+      const result = useStream(Stream.never)
+      return <div data-testid="tag">{result._tag}</div>
+    }
+
+    render(<Test />, { wrapper })
+    expect(screen.getByTestId("tag").textContent).toBe("Waiting")
+  })
+
+  it("exposes the latest element while emitting, then completes with the last one", async () => {
+    function Test() {
+      const result = useStream(ticks([1, 2, 3], "30 millis"))
+      return (
+        <div data-testid="result">
+          {result._tag === "Emitting"
+            ? `emitting ${result.value}`
+            : result._tag === "Done"
+              ? `done ${Option.getOrElse(result.value, () => -1)}`
+              : result._tag}
+        </div>
+      )
+    }
+
+    render(<Test />, { wrapper })
+
+    await act(async () => {
+      await new Promise((r) => setTimeout(r, 45))
+    })
+
+    expect(screen.getByTestId("result").textContent).toBe("emitting 1")
+
+    await act(async () => {
+      await new Promise((r) => setTimeout(r, 150))
+    })
+
+    expect(screen.getByTestId("result").textContent).toBe("done 3")
+  })
+
+  it("accumulates elements with fold", async () => {
+    function Test() {
+      const result = useStream(Stream.make("a", "b", "c"), {
+        fold: { initial: Chunk.empty<string>(), step: (chunk, value) => Chunk.append(chunk, value) },
+      })
+      return (
+        <div data-testid="result">
+          {result._tag === "Done"
+            ? Option.match(result.value, {
+                onNone: () => "none",
+                onSome: (chunk) => Chunk.join(chunk, ","),
+              })
+            : result._tag}
+        </div>
+      )
+    }
+
+    render(<Test />, { wrapper })
+
+    await act(async () => {
+      await new Promise((r) => setTimeout(r, 50))
+    })
+
+    expect(screen.getByTestId("result").textContent).toBe("a,b,c")
+  })
+
+  it("completes with None when the stream emits nothing", async () => {
+    function Test() {
+      const result = useStream(Stream.empty)
+      return (
+        <div data-testid="result">
+          {result._tag === "Done" ? String(Option.isNone(result.value)) : result._tag}
+        </div>
+      )
+    }
+
+    render(<Test />, { wrapper })
+
+    await act(async () => {
+      await new Promise((r) => setTimeout(r, 50))
+    })
+
+    expect(screen.getByTestId("result").textContent).toBe("true")
+  })
+
+  it("reports stream failures as Failure", async () => {
+    function Test() {
+      const result = useStream(
+        Stream.concat(Stream.make(1), Stream.fail("stream-error")),
+      )
+      return (
+        <div data-testid="result">
+          {result._tag === "Failure" ? String(result.error) : result._tag}
+        </div>
+      )
+    }
+
+    render(<Test />, { wrapper })
+
+    await act(async () => {
+      await new Promise((r) => setTimeout(r, 50))
+    })
+
+    expect(screen.getByTestId("result").textContent).toBe("stream-error")
+  })
+
+  it("interrupts the stream on unmount", async () => {
+    let interrupted = false
+
+    function Test() {
+      useStream(
+        Stream.never.pipe(
+          Stream.ensuring(Effect.sync(() => { interrupted = true })),
+        ),
+      )
+      return null
+    }
+
+    const { unmount } = render(<Test />, { wrapper })
+
+    await act(async () => {
+      await new Promise((r) => setTimeout(r, 20))
+    })
+
+    unmount()
+
+    await act(async () => {
+      await new Promise((r) => setTimeout(r, 20))
+    })
+
+    expect(interrupted).toBe(true)
+  })
+
+  it("restarts the stream when deps change", async () => {
+    function Test({ base }: { base: number }) {
+      const result = useStream(Stream.make(base, base + 1), { deps: [base] })
+      return (
+        <div data-testid="result">
+          {result._tag === "Done" ? String(Option.getOrElse(result.value, () => -1)) : result._tag}
+        </div>
+      )
+    }
+
+    const { rerender } = render(<Test base={10} />, { wrapper })
+
+    await act(async () => {
+      await new Promise((r) => setTimeout(r, 50))
+    })
+
+    expect(screen.getByTestId("result").textContent).toBe("11")
+
+    rerender(<Test base={20} />)
+
+    await act(async () => {
+      await new Promise((r) => setTimeout(r, 50))
+    })
+
+    expect(screen.getByTestId("result").textContent).toBe("21")
+  })
+})
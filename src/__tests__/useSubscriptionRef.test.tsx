@@ -0,0 +1,171 @@
+import { describe, it, expect } from "vitest"
+import { render, screen, act, fireEvent } from "@testing-library/react"
+import * as React from "react"
+import { Context, Effect, Layer, SubscriptionRef } from "effect"
+import { EffectProvider } from "../providers/EffectProvider.js"
+import { useSubscriptionRef } from "../hooks/useSubscriptionRef.js"
+import { useEffectMemo } from "../hooks/useEffectMemo.js"
+
+class Balances extends Context.Tag("Balances")<
+  Balances,
+  {
+    readonly ref: SubscriptionRef.SubscriptionRef<Record<string, number>>
+    readonly deposit: (id: string, amount: number) => Effect.Effect<void>
+  }
+>() {}
+
+const BalancesLive = Layer.effect(
+  Balances,
+  Effect.map(SubscriptionRef.make<Record<string, number>>({ a: 100, b: 200 }), (ref) => ({
+    ref,
+    deposit: (id: string, amount: number) =>
+      SubscriptionRef.update(ref, (balances) => ({ ...balances, [id]: balances[id] + amount })),
+  })),
+)
+
+function useBalances() {
+  return useEffectMemo(() => Balances, [])
+}
+
+describe("useSubscriptionRef", () => {
+  it("reads the current value synchronously", () => {
+    function Test() {
+      const service = useBalances()
+      const [balances] = useSubscriptionRef(service.ref)
+      return <div data-testid="a">{balances.a}</div>
+    }
+
+    render(
+      <EffectProvider layer={BalancesLive}>
+        <Test />
+      </EffectProvider>,
+    )
+
+    expect(screen.getByTestId("a").textContent).toBe("100")
+  })
+
+  it("re-renders every bound component when a service updates the ref", async () => {
+    function Reader({ testId }: { testId: string }) {
+      const service = useBalances()
+      const [balance] = useSubscriptionRef(service.ref, (b) => b.a)
+      return <div data-testid={testId}>{balance}</div>
+    }
+
+    function Depositor() {
+      const service = useBalances()
+      return (
+        <button
+          data-testid="deposit"
+          onClick={() => Effect.runFork(service.deposit("a", 50))}
+        >
+          Deposit
+        </button>
+      )
+    }
+
+    render(
+      <EffectProvider layer={BalancesLive}>
+        <Reader testId="first" />
+        <Reader testId="second" />
+        <Depositor />
+      </EffectProvider>,
+    )
+
+    fireEvent.click(screen.getByTestId("deposit"))
+
+    await act(async () => {
+      await new Promise((r) => setTimeout(r, 50))
+    })
+
+    expect(screen.getByTestId("first").textContent).toBe("150")
+    expect(screen.getByTestId("second").textContent).toBe("150")
+  })
+
+  it("re-renders only when the selected slice changes", async () => {
+    let renders = 0
+
+    function Reader() {
+      const service = useBalances()
+      const [balance] = useSubscriptionRef(service.ref, (b) => b.a)
+      renders++
+      return <div data-testid="a">{balance}</div>
+    }
+
+    function Depositor() {
+      const service = useBalances()
+      return (
+        <button
+          data-testid="deposit-b"
+          onClick={() => Effect.runFork(service.deposit("b", 10))}
+        >
+          Deposit
+        </button>
+      )
+    }
+
+    render(
+      <EffectProvider layer={BalancesLive}>
+        <Reader />
+        <Depositor />
+      </EffectProvider>,
+    )
+
+    await act(async () => {
+      await new Promise((r) => setTimeout(r, 50))
+    })
+
+    const rendersBefore = renders
+
+    fireEvent.click(screen.getByTestId("deposit-b"))
+
+    await act(async () => {
+      await new Promise((r) => setTimeout(r, 50))
+    })
+
+    expect(renders).toBe(rendersBefore)
+    expect(screen.getByTestId("a").textContent).toBe("100")
+  })
+
+  it("setter accepts a value or an update function", async () => {
+    function Test() {
+      const service = useBalances()
+      const [balances, setBalances] = useSubscriptionRef(service.ref)
+      return (
+        <div>
+          <span data-testid="a">{balances.a}</span>
+          <button data-testid="set" onClick={() => setBalances({ a: 1, b: 2 })}>
+            Set
+          </button>
+          <button
+            data-testid="update"
+            onClick={() => setBalances((b) => ({ ...b, a: b.a * 10 }))}
+          >
+            Update
+          </button>
+        </div>
+      )
+    }
+
+    render(
+      <EffectProvider layer={BalancesLive}>
+        <Test />
+      </EffectProvider>,
+    )
+
+    fireEvent.click(screen.getByTestId("set"))
+
+    await act(async () => {
+      await new Promise((r) => setTimeout(r, 50))
+    })
+
+    expect(screen.getByTestId("a").textContent).toBe("1")
+
+    fireEvent.click(screen.getByTestId("update"))
+
+    await act(async () => {
+      await new Promise((r) => setTimeout(r, 50))
+    })
+
+    expect(screen.getByTestId("a").textContent).toBe("10")
+  })
+})
@@ -0,0 +1,494 @@
+/**
+ * Provider-scoped effect cache — shares keyed effect results between components.
+ *
+ * Each EffectProvider owns one EffectCache, bound to its ManagedRuntime.
+ * An entry is identified by a key (e.g. `["accounts"]`, `["tx", accountId]`)
+ * and holds the same reactive stores a hook would otherwise create for itself,
+ * so every component subscribed to a key reads one result and one fiber.
+ *
+ * Entries are reference counted: a fiber still running when the last subscriber
+ * unmounts is interrupted, and the entry re-runs on next use. An entry left
+ * without subscribers for `gcTime` is dropped, so churning keys (pages, search
+ * terms) do not pile up.
+ *
+ * Invalidation works on key prefixes: `invalidate(["tx"])` refetches
+ * `["tx", "acc-1"]` and `["tx", "acc-2"]` for their current subscribers,
+ * and marks unsubscribed entries stale so they re-run on next use.
+ *
+ * Mutations can layer optimistic values over entries (`optimistic`): subscribers
+ * see the updated value at once, and the layer is rolled back if the mutation
+ * fails, or dropped once the entry's next result arrives if it succeeds.
+ *
+ * For server rendering, a server cache also collects the keyed effects each
+ * render pass reads and runs them; `dehydrate` serializes the successful
+ * results, and a client cache `hydrate`s them so its first render starts
+ * from Success instead of refetching.
+ */
+import type { Effect, Fiber, ManagedRuntime, Schedule } from "effect"
+import { Duration, Either, Option, Schema } from "effect"
+import {
+  type ControllableResult,
+  type EffectResult,
+  Interrupted,
+  Loading,
+  Refreshing,
+  Success,
+  fromExit,
+  withAttempt,
+} from "./types.js"
+import { type ComponentStore, createComponentStore } from "./reactive.js"
+import { startPolling } from "./refetch.js"
+
+/**
+ * Identifies a cached effect. Elements must be JSON-serializable; `Data` values
+ * and requests (e.g. `[GetAccount({ id })]`) are, and match by their fields.
+ */
+export type EffectCacheKey = ReadonlyArray<unknown>
+
+/**
+ * Converts a cached value to JSON-safe data for dehydration and back on hydration.
+ * Only needed for values that are not plain JSON (Dates, Options, classes, ...).
+ */
+export type EffectCacheSchema<A> = Schema.Schema<A, any, never>
+
+/**
+ * Successful keyed results serialized by the server, to be embedded in the page
+ * and passed to `<EffectProvider dehydratedState={...}>` on the client.
+ */
+export interface DehydratedState {
+  readonly entries: ReadonlyArray<{
+    readonly key: EffectCacheKey
+    readonly value: unknown
+  }>
+}
+
+export interface EffectCacheEntry<A, E> {
+  readonly key: EffectCacheKey
+  /** Result shared by every subscriber of this key. */
+  readonly result: ComponentStore<ControllableResult<A, E>>
+  /** Reports a retry of the entry's run on its actual result — see `withAttempt`. */
+  retrying(attempt: number): void
+}
+
+/**
+ * An optimistic value layered over cached entries.
+ */
+export interface OptimisticLayer {
+  /** Removes the layer — subscribers see the actual result again. */
+  rollback(): void
+  /** Keeps the layer until each entry's next result replaces it. */
+  commit(): void
+}
+
+export interface EffectCache {
+  /**
+   * Returns the entry for `key`, creating an empty (Loading) one on first use.
+   * A new entry starts from its hydrated value, if any — decoded with `schema` when given.
+   */
+  entry<A, E>(key: EffectCacheKey, schema?: EffectCacheSchema<A>): EffectCacheEntry<A, E>
+  /**
+   * Subscribes to `key` with the effect that produces its value.
+   * The effect runs if the entry has never run or was invalidated, or when
+   * `rerun` is set (the subscriber's deps changed); otherwise the cached result
+   * (or in-flight fiber) is shared. Returns unsubscribe — once the last
+   * subscriber is gone, a fiber still running is interrupted.
+   */
+  retain<A, E, R>(key: EffectCacheKey, effect: Effect.Effect<A, E, R>, rerun?: boolean): () => void
+  /**
+   * Re-runs subscribed entries whose key starts with `prefix` — a Success stays
+   * visible, flagged `isRefreshing` — and marks the rest stale.
+   */
+  invalidate(prefix: EffectCacheKey): void
+  /**
+   * Re-runs the entry under `key` in the background on `schedule` (see `startPolling`)
+   * until every caller has released it — subscribers sharing a key share one poll,
+   * on the first caller's schedule. A Success stays visible, flagged `isRefreshing`,
+   * until the new result replaces it. Returns the release function.
+   */
+  poll(key: EffectCacheKey, schedule: Schedule.Schedule<unknown, unknown, never>): () => void
+  /**
+   * Re-runs the entry under `key` now, interrupting its running fiber. A Success
+   * stays visible, flagged `isRefreshing`, until the new result replaces it.
+   */
+  refetch(key: EffectCacheKey): void
+  /**
+   * Interrupts the entry's running fiber and marks the entry stale, so its next
+   * use re-runs it. A Success being refreshed stays as it was; otherwise the
+   * entry becomes Interrupted.
+   */
+  cancel(key: EffectCacheKey): void
+  /**
+   * Drops the result of the entry under `key` — e.g. a failure an error boundary
+   * was reset from. A subscribed entry runs again now; any other becomes Loading
+   * and runs for its next subscriber.
+   */
+  reset(key: EffectCacheKey): void
+  /**
+   * Shows `update(value)` instead of the value of every entry whose key starts
+   * with `prefix`. Layers stack in call order and apply to Success results only;
+   * the actual result keeps updating underneath.
+   */
+  optimistic<A>(prefix: EffectCacheKey, update: (value: A) => A): OptimisticLayer
+  /**
+   * Called during render. A server cache starts the effect for `key` unless it
+   * already ran, so a later render pass can read its result. No-op on the client.
+   */
+  collect<A, E, R>(key: EffectCacheKey, effect: Effect.Effect<A, E, R>, schema?: EffectCacheSchema<A>): void
+  /**
+   * Waits for every effect collected since the last call.
+   * Resolves to false when there was nothing to wait for.
+   */
+  settle(): Promise<boolean>
+  /** Serializes every successful entry, encoding values with the entry's schema if it has one. */
+  dehydrate(): DehydratedState
+  /** Seeds the cache with dehydrated results; each is decoded when its entry is first used. */
+  hydrate(state: DehydratedState): void
+  /**
+   * Runs entries on `runtime` from now on — e.g. once a provider's override
+   * changed. Fibers already running keep their runtime; `invalidate` re-runs them.
+   */
+  setRuntime(runtime: ManagedRuntime.ManagedRuntime<any, any>): void
+}
+
+export interface EffectCacheOptions {
+  /** Collect and run keyed effects during render — set for server rendering. */
+  readonly server?: boolean
+  /**
+   * How long an entry without subscribers is kept before it is dropped.
+   * Defaults to 5 minutes. Server caches keep every entry for `dehydrate`.
+   */
+  readonly gcTime?: Duration.DurationInput
+}
+
+const DEFAULT_GC_TIME: Duration.DurationInput = "5 minutes"
+
+interface Layer {
+  readonly update: (value: any) => any
+  committed: boolean
+}
+
+interface InternalEntry<A, E> extends EffectCacheEntry<A, E> {
+  /** The actual result, before optimistic layers. `result.set` writes here. */
+  base: ControllableResult<A, E>
+  layers: Array<Layer>
+  /** What subscribers read: `base` with the layers applied. */
+  readonly shown: ComponentStore<ControllableResult<A, E>>
+  effect: Effect.Effect<A, E, any> | null
+  fiber: Fiber.RuntimeFiber<A, E> | null
+  subscribers: number
+  /** True until the entry has run, and again after invalidation without subscribers. */
+  stale: boolean
+  schema: EffectCacheSchema<A> | null
+  /** The background poll shared by the entry's pollers, while any is mounted. */
+  poll: { pollers: number; readonly stop: () => void } | null
+  /** Drops the entry once it has gone unused for `gcTime`. */
+  gcTimer: ReturnType<typeof setTimeout> | null
+}
+
+/**
+ * Publishes an entry's base result with its optimistic layers applied.
+ */
+function publish<A, E>(entry: InternalEntry<A, E>): void {
+  const { base, layers } = entry
+  entry.shown.set(
+    base._tag === "Success" && layers.length > 0
+      ? { ...base, value: layers.reduce((value, layer) => layer.update(value), base.value) }
+      : base,
+  )
+}
+
+/**
+ * Stable string form of a key — used for map lookups and prefix matching.
+ */
+export function hashKey(key: EffectCacheKey): string {
+  return JSON.stringify(key)
+}
+
+/**
+ * Creates an effect cache whose entries run on the given runtime (see `setRuntime`).
+ */
+export function createEffectCache(
+  initialRuntime: ManagedRuntime.ManagedRuntime<any, any>,
+  options?: EffectCacheOptions,
+): EffectCache {
+  let runtime = initialRuntime
+  const entries = new Map<string, InternalEntry<any, any>>()
+  // Dehydrated values not yet claimed by an entry
+  const hydrated = new Map<string, unknown>()
+  // Fibers started by collect() that settle() has not waited for yet
+  const collected: Array<Promise<void>> = []
+  const gcTime = Duration.toMillis(options?.gcTime ?? DEFAULT_GC_TIME)
+
+  /** Drops the entry after `gcTime`, unless it is subscribed to again in the meantime. */
+  const scheduleGc = (hash: string, entry: InternalEntry<any, any>): void => {
+    if (options?.server) return
+    if (entry.gcTimer !== null) clearTimeout(entry.gcTimer)
+    entry.gcTimer = setTimeout(() => {
+      entry.gcTimer = null
+      if (entry.subscribers === 0 && entries.get(hash) === entry) {
+        entries.delete(hash)
+      }
+    }, gcTime)
+  }
+
+  const getEntry = <A, E>(key: EffectCacheKey, schema?: EffectCacheSchema<A>): InternalEntry<A, E> => {
+    const hash = hashKey(key)
+    let entry = entries.get(hash)
+    if (!entry) {
+      const shown = createComponentStore<ControllableResult<any, any>>(Loading)
+      const created: InternalEntry<any, any> = {
+        key,
+        result: {
+          getSnapshot: shown.getSnapshot,
+          subscribe: shown.subscribe,
+          set(next) {
+            created.base = next
+            // A new result replaces the layers of mutations that succeeded
+            if (next._tag !== "Loading" && !(next._tag === "Success" && next.isRefreshing)) {
+              created.layers = created.layers.filter((layer) => !layer.committed)
+            }
+            publish(created)
+          },
+        },
+        retrying(attempt) {
+          created.result.set(withAttempt(created.base, attempt))
+        },
+        base: Loading,
+        layers: [],
+        shown,
+        effect: null,
+        fiber: null,
+        subscribers: 0,
+        stale: true,
+        schema: null,
+        poll: null,
+        gcTimer: null,
+      }
+      entry = created
+      entries.set(hash, entry)
+    }
+    if (schema && entry.schema === null) {
+      entry.schema = schema
+    }
+    if (hydrated.has(hash)) {
+      const encoded = hydrated.get(hash)
+      hydrated.delete(hash)
+      // A value that no longer decodes is dropped — the entry simply runs its effect.
+      const decoded = entry.schema
+        ? Schema.decodeUnknownOption(entry.schema)(encoded)
+        : Option.some(encoded)
+      if (Option.isSome(decoded)) {
+        entry.result.set(Success(decoded.value))
+        entry.stale = false
+      }
+    }
+    return entry
+  }
+
+  /**
+   * Runs the entry's effect. A refresh keeps its Success visible, flagged
+   * `isRefreshing`; a poll also joins the fiber already running, and leaves a
+   * failure visible until the new result replaces it.
+   */
+  const run = <A, E>(
+    entry: InternalEntry<A, E>,
+    refresh?: "refetch" | "poll",
+  ): Fiber.RuntimeFiber<A, E> | null => {
+    if (entry.effect === null) return null
+    if (entry.fiber) {
+      if (refresh === "poll") return entry.fiber
+      entry.fiber.unsafeInterruptAsFork(entry.fiber.id())
+    }
+    entry.stale = false
+    const { base } = entry
+    if (refresh && base._tag === "Success") {
+      entry.result.set(Refreshing(base.value))
+    } else if (refresh !== "poll" || base._tag === "Interrupted") {
+      entry.result.set(Loading as EffectResult<A, E>)
+    }
+
+    const fiber = runtime.runFork(entry.effect)
+    entry.fiber = fiber
+
+    fiber.addObserver((exit) => {
+      // Ignore if a newer fiber has replaced this one
+      if (entry.fiber !== fiber) return
+      entry.fiber = null
+      const next = fromExit(exit)
+      if (next !== null) {
+        entry.result.set(next)
+      }
+    })
+    return fiber
+  }
+
+  /**
+   * Interrupts the entry's running fiber and marks it stale. A Success being
+   * refreshed stays visible as it was; any other result is replaced by `unsettled`.
+   */
+  const interrupt = <A, E>(entry: InternalEntry<A, E>, unsettled: ControllableResult<A, E>): void => {
+    const fiber = entry.fiber
+    if (fiber === null) return
+    entry.fiber = null
+    entry.stale = true
+    fiber.unsafeInterruptAsFork(fiber.id())
+    const { base } = entry
+    entry.result.set(base._tag === "Success" ? Success(base.value) : unsettled)
+  }
+
+  return {
+    entry: getEntry,
+
+    retain(key, effect, rerun) {
+      const hash = hashKey(key)
+      const entry = getEntry(key)
+      // The latest subscriber's effect is the one re-run on invalidation.
+      entry.effect = effect
+      entry.subscribers++
+      if (entry.gcTimer !== null) {
+        clearTimeout(entry.gcTimer)
+        entry.gcTimer = null
+      }
+      if (entry.stale || rerun) {
+        run(entry)
+      }
+      return () => {
+        entry.subscribers--
+        if (entry.subscribers > 0) return
+        scheduleGc(hash, entry)
+        if (entry.fiber === null) return
+        // Deferred, so a subscriber that comes right back (a key switched back,
+        // StrictMode's remount) keeps sharing the running fiber
+        queueMicrotask(() => {
+          if (entry.subscribers === 0) {
+            interrupt(entry, Loading as EffectResult<any, any>)
+          }
+        })
+      }
+    },
+
+    invalidate(prefix) {
+      const prefixHash = hashKey(prefix)
+      for (const entry of entries.values()) {
+        if (hashKey(entry.key.slice(0, prefix.length)) !== prefixHash) continue
+        if (entry.subscribers > 0) {
+          // Subscribers keep showing the current value (and optimistic layers) until the new one lands
+          run(entry, "refetch")
+        } else {
+          // Drop any in-flight result too — it predates the invalidation.
+          if (entry.fiber) {
+            entry.fiber.unsafeInterruptAsFork(entry.fiber.id())
+            entry.fiber = null
+          }
+          entry.stale = true
+        }
+      }
+    },
+
+    poll(key, schedule) {
+      const entry = getEntry(key)
+      if (entry.poll === null) {
+        entry.poll = { pollers: 0, stop: startPolling(runtime, schedule, () => run(entry, "poll")) }
+      }
+      const poll = entry.poll
+      poll.pollers++
+      return () => {
+        if (--poll.pollers === 0 && entry.poll === poll) {
+          poll.stop()
+          entry.poll = null
+        }
+      }
+    },
+
+    refetch(key) {
+      run(getEntry(key), "refetch")
+    },
+
+    cancel(key) {
+      interrupt(getEntry(key), Interrupted())
+    },
+
+    reset(key) {
+      const entry = entries.get(hashKey(key))
+      if (!entry) return
+      if (entry.subscribers > 0) {
+        run(entry)
+        return
+      }
+      interrupt(entry, Loading as EffectResult<any, any>)
+      entry.stale = true
+      entry.result.set(Loading as EffectResult<any, any>)
+    },
+
+    optimistic(prefix, update) {
+      const prefixHash = hashKey(prefix)
+      const layer: Layer = { update, committed: false }
+      const layered = Array.from(entries.values()).filter(
+        (entry) => hashKey(entry.key.slice(0, prefix.length)) === prefixHash,
+      )
+      for (const entry of layered) {
+        entry.layers.push(layer)
+        publish(entry)
+      }
+      return {
+        rollback() {
+          for (const entry of layered) {
+            const index = entry.layers.indexOf(layer)
+            if (index !== -1) {
+              entry.layers.splice(index, 1)
+              publish(entry)
+            }
+          }
+        },
+        commit() {
+          layer.committed = true
+        },
+      }
+    },
+
+    collect(key, effect, schema) {
+      if (!options?.server) return
+      const entry = getEntry(key, schema)
+      if (!entry.stale) return
+      entry.effect = effect
+      const fiber = run(entry)
+      if (fiber) {
+        collected.push(new Promise<void>((resolve) => fiber.addObserver(() => resolve())))
+      }
+    },
+
+    async settle() {
+      if (collected.length === 0) return false
+      await Promise.all(collected.splice(0))
+      return true
+    },
+
+    dehydrate() {
+      const dehydrated: Array<DehydratedState["entries"][number]> = []
+      for (const entry of entries.values()) {
+        const result = entry.base
+        if (result._tag !== "Success") continue
+        if (entry.schema === null) {
+          dehydrated.push({ key: entry.key, value: result.value })
+          continue
+        }
+        // A value the schema cannot encode is left for the client to fetch.
+        const encoded = Schema.encodeEither(entry.schema)(result.value)
+        if (Either.isRight(encoded)) {
+          dehydrated.push({ key: entry.key, value: encoded.right })
+        }
+      }
+      return { entries: dehydrated }
+    },
+
+    hydrate(state) {
+      for (const { key, value } of state.entries) {
+        hydrated.set(hashKey(key), value)
+      }
+    },
+
+    setRuntime(next) {
+      runtime = next
+    },
+  }
+}
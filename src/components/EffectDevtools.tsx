@@ -0,0 +1,102 @@
+import * as React from "react"
+import { Cause } from "effect"
+import { type DevtoolsProvider, devtoolsStore } from "../supervisor.js"
+
+const h = React.createElement
+
+/**
+ * Dev-only inspector for the fibers the hooks are running.
+ *
+ * Lists every mounted EffectProvider with the services in its runtime, its
+ * live fibers — the hook that forked each one, its span name (`spanName`),
+ * start time and whether it is running or suspended — and its most recent
+ * exits with their Cause. It can be rendered anywhere, inside or outside
+ * the providers it inspects.
+ *
+ * Only providers given `devtools` report to it.
+ *
+ * @example
+ * ```tsx
+ * import { EffectDevtools, devtools } from 'effect-react/devtools'
+ *
+ * function App() {
+ *   return (
+ *     <>
+ *       <EffectProvider layer={AppLayer} devtools={devtools}>
+ *         <Routes />
+ *       </EffectProvider>
+ *       <EffectDevtools />
+ *     </>
+ *   )
+ * }
+ * ```
+ */
+export function EffectDevtools(): React.ReactElement {
+  const providers = React.useSyncExternalStore(
+    devtoolsStore.subscribe,
+    devtoolsStore.getSnapshot,
+    devtoolsStore.getSnapshot,
+  )
+
+  return h(
+    "section",
+    { "aria-label": "Effect devtools", style: { fontFamily: "monospace", fontSize: 12 } },
+    providers.length === 0
+      ? h("p", null, "No EffectProvider is mounted.")
+      : providers.map((provider) => h(ProviderPanel, { key: provider.id, provider })),
+  )
+}
+
+function ProviderPanel({ provider }: { provider: DevtoolsProvider }): React.ReactElement {
+  return h(
+    "details",
+    { open: true, "data-testid": `effect-devtools-provider-${provider.id}` },
+    h("summary", null, `EffectProvider #${provider.id} — ${provider.fibers.length} live fiber(s)`),
+    h("p", null, `Services: ${provider.services.length > 0 ? provider.services.join(", ") : "—"}`),
+    h(
+      "table",
+      null,
+      h("caption", null, "Live fibers"),
+      h("thead", null, row("th", ["Fiber", "Hook", "Name", "Started", "Status"])),
+      h(
+        "tbody",
+        null,
+        provider.fibers.map((fiber) =>
+          row("td", [`#${fiber.id}`, fiber.hook, fiber.name, formatTime(fiber.startedAt), fiber.status], fiber.id),
+        ),
+      ),
+    ),
+    h(
+      "table",
+      null,
+      h("caption", null, "Recent exits"),
+      h("thead", null, row("th", ["Fiber", "Hook", "Name", "Duration", "Status", "Cause"])),
+      h(
+        "tbody",
+        null,
+        provider.exits.map((exit) =>
+          row(
+            "td",
+            [
+              `#${exit.id}`,
+              exit.hook,
+              exit.name,
+              `${exit.endedAt - exit.startedAt} ms`,
+              exit.status,
+              exit.cause && h("pre", { style: { margin: 0 } }, Cause.pretty(exit.cause)),
+            ],
+            exit.id,
+          ),
+        ),
+      ),
+    ),
+  )
+}
+
+function row(cell: "th" | "td", values: ReadonlyArray<React.ReactNode>, key?: React.Key): React.ReactElement {
+  return h("tr", { key }, values.map((value, index) => h(cell, { key: index }, value ?? "—")))
+}
+
+function formatTime(epochMillis: number): string {
+  return new Date(epochMillis).toLocaleTimeString()
+}
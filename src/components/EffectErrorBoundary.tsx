@@ -0,0 +1,150 @@
+import * as React from "react"
+import { Cause, Option, Runtime } from "effect"
+import { EffectResetContext } from "../context.js"
+
+export interface EffectErrorFallbackProps<E> {
+  /** The full Cause of the failure — typed failures, defects and their traces. */
+  readonly cause: Cause.Cause<E>
+  /** Clears the error and remounts the children, re-running their effects. */
+  readonly reset: () => void
+}
+
+type TaggedFailure<E> = Extract<E, { readonly _tag: string }>
+
+/**
+ * Fallbacks keyed by the `_tag` of a typed failure, mirroring `Effect.catchTags`.
+ */
+export type EffectErrorBoundaryCatchTags<E> = {
+  readonly [Tag in TaggedFailure<E>["_tag"]]?: (
+    error: Extract<TaggedFailure<E>, { readonly _tag: Tag }>,
+    reset: () => void,
+  ) => React.ReactNode
+}
+
+export interface EffectErrorBoundaryProps<E = unknown> {
+  /** Rendered for any caught failure not handled by `catchTags`. */
+  readonly fallback: (props: EffectErrorFallbackProps<E>) => React.ReactNode
+  /** Per-tag fallbacks for typed failures — checked before `fallback`. */
+  readonly catchTags?: EffectErrorBoundaryCatchTags<E>
+  /** Called once per caught failure, e.g. for logging or reporting. */
+  readonly onError?: (cause: Cause.Cause<E>) => void
+  readonly children: React.ReactNode
+}
+
+interface EffectErrorBoundaryState<E> {
+  readonly cause: Cause.Cause<E> | null
+  /** Bumped by reset() — remounts the children so their effects run again. */
+  readonly resetCount: number
+}
+
+/**
+ * Error boundary that understands Effect failures.
+ *
+ * Catches errors thrown during render by its descendants and turns them into
+ * a `Cause`:
+ * - `FiberFailure`s thrown by hooks (`useRunEffectSuspense`, or `useRunEffect` /
+ *   `useEffectCallback` with `throwOnFailure`) keep their original Cause,
+ *   typed failures and defects alike
+ * - Any other thrown value becomes a defect (`Cause.die`)
+ *
+ * Typed failures are matched against `catchTags` by their `_tag`; everything
+ * else renders `fallback`. Both receive a `reset()` that clears the error and
+ * remounts the children, so the failing effects run again.
+ *
+ * @example
+ * ```tsx
+ * import { EffectErrorBoundary } from 'effect-react'
+ * import { Cause } from 'effect'
+ *
+ * function Accounts() {
+ *   return (
+ *     <EffectErrorBoundary<BankError>
+ *       catchTags={{
+ *         InsufficientFundsError: (e, reset) => (
+ *           <Retry onClick={reset}>Balance is only {e.balance}</Retry>
+ *         ),
+ *       }}
+ *       fallback={({ cause, reset }) => (
+ *         <Retry onClick={reset}>{Cause.pretty(cause)}</Retry>
+ *       )}
+ *     >
+ *       <AccountDashboard />
+ *     </EffectErrorBoundary>
+ *   )
+ * }
+ * ```
+ */
+export class EffectErrorBoundary<E = unknown> extends React.Component<
+  EffectErrorBoundaryProps<E>,
+  EffectErrorBoundaryState<E>
+> {
+  static displayName = "EffectErrorBoundary"
+
+  state: EffectErrorBoundaryState<E> = { cause: null, resetCount: 0 }
+
+  static getDerivedStateFromError(error: unknown): Partial<EffectErrorBoundaryState<unknown>> {
+    return { cause: toCause(error) }
+  }
+
+  componentDidCatch(error: unknown): void {
+    this.props.onError?.(toCause(error) as Cause.Cause<E>)
+  }
+
+  /** Clean-up registered by the failed children, run once by the next reset(). */
+  private readonly onReset = new Set<() => void>()
+
+  private registerReset = (onReset: () => void): void => {
+    this.onReset.add(onReset)
+  }
+
+  reset = (): void => {
+    const onReset = [...this.onReset]
+    this.onReset.clear()
+    for (const run of onReset) run()
+    this.setState((state) => ({ cause: null, resetCount: state.resetCount + 1 }))
+  }
+
+  render(): React.ReactNode {
+    const { cause, resetCount } = this.state
+
+    if (cause === null) {
+      return React.createElement(
+        EffectResetContext.Provider,
+        { key: resetCount, value: this.registerReset },
+        this.props.children,
+      )
+    }
+
+    const failure = Cause.failureOption(cause)
+    if (Option.isSome(failure) && hasTag(failure.value)) {
+      const handlers = this.props.catchTags as
+        | Record<string, ((error: unknown, reset: () => void) => React.ReactNode) | undefined>
+        | undefined
+      const handler = handlers?.[failure.value._tag]
+      if (handler) {
+        return handler(failure.value, this.reset)
+      }
+    }
+
+    return this.props.fallback({ cause, reset: this.reset })
+  }
+}
+
+/**
+ * Recovers the Cause from a thrown FiberFailure; anything else is a defect.
+ */
+function toCause(error: unknown): Cause.Cause<unknown> {
+  if (Runtime.isFiberFailure(error)) {
+    return error[Runtime.FiberFailureCauseId]
+  }
+  return Cause.die(error)
+}
+
+function hasTag(value: unknown): value is { readonly _tag: string } {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    "_tag" in value &&
+    typeof (value as any)._tag === "string"
+  )
+}
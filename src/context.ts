@@ -1,5 +1,6 @@
 import * as React from "react"
-import type { ManagedRuntime } from "effect"
+import type { ManagedRuntime, Request } from "effect"
+import type { EffectCache } from "./cache.js"
 
 /**
  * React Context that holds the Effect ManagedRuntime.
@@ -14,3 +15,29 @@ export const EffectRuntimeContext = React.createContext<
 >(null)
 
 EffectRuntimeContext.displayName = "EffectRuntimeContext"
+
+/**
+ * React Context that holds the keyed effect cache of the nearest EffectProvider.
+ * Each provider owns its own cache, bound to its runtime — keys never
+ * resolve across providers.
+ */
+export const EffectCacheContext = React.createContext<EffectCache | null>(null)
+
+EffectCacheContext.displayName = "EffectCacheContext"
+
+/**
+ * React Context that holds the request cache of the nearest EffectProvider
+ * that owns one (its `requestCache` prop), or null if none does.
+ */
+export const EffectRequestCacheContext = React.createContext<Request.Cache | null>(null)
+
+EffectRequestCacheContext.displayName = "EffectRequestCacheContext"
+
+/**
+ * React Context through which hooks register clean-up with the nearest
+ * EffectErrorBoundary, run by its `reset()` before the children remount —
+ * e.g. dropping a cached failure so the remounted hook runs its effect again.
+ */
+export const EffectResetContext = React.createContext<((onReset: () => void) => void) | null>(null)
+
+EffectResetContext.displayName = "EffectResetContext"
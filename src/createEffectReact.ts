@@ -0,0 +1,133 @@
+/**
+ * Typed bindings — hooks that know which services their provider supplies.
+ *
+ * The standalone hooks accept effects with any requirements, so an effect
+ * needing a service no provider supplies only fails at runtime (as a Defect).
+ * `createEffectReact(layer)` returns a Provider for that layer and hooks whose
+ * effects may only require the layer's services, turning a missing service
+ * into a compile error.
+ */
+import * as React from "react"
+import { type Context, type ManagedRuntime, Effect, Layer } from "effect"
+import { EffectProvider, type EffectProviderProps } from "./providers/EffectProvider.js"
+import { useRunEffect, type UseRunEffectOptions } from "./hooks/useRunEffect.js"
+import {
+  useRunEffectControls,
+  type UseRunEffectControlsReturn,
+} from "./hooks/useRunEffectControls.js"
+import { useService } from "./hooks/useService.js"
+import {
+  useEffectCallback,
+  type UseEffectCallbackOptions,
+  type UseEffectCallbackReturn,
+} from "./hooks/useEffectCallback.js"
+import { useEffectRuntime } from "./hooks/useEffectRuntime.js"
+import type { EffectResult } from "./types.js"
+
+/**
+ * Props of a typed Provider — EffectProvider's props, with the layer already bound.
+ */
+export type EffectReactProviderProps<R, E, ROut extends R = R, E2 = never> = Omit<
+  EffectProviderProps<R, E, ROut, E2>,
+  "layer"
+>
+
+/**
+ * A Provider and hooks bound to the services `R` of one layer.
+ */
+export interface EffectReact<R, E> {
+  /** EffectProvider for the bound layer. */
+  readonly Provider: <ROut extends R = R, E2 = never>(
+    props: EffectReactProviderProps<R, E, ROut, E2>,
+  ) => React.ReactElement
+  /** `useRunEffect`, accepting only effects whose requirements are provided. */
+  readonly useRunEffect: <A, EA>(
+    effect: Effect.Effect<A, EA, R>,
+    options?: UseRunEffectOptions<A, EA>,
+  ) => EffectResult<A, EA>
+  /** `useRunEffectControls`, accepting only effects whose requirements are provided. */
+  readonly useRunEffectControls: <A, EA>(
+    effect: Effect.Effect<A, EA, R>,
+    options?: UseRunEffectOptions<A, EA>,
+  ) => UseRunEffectControlsReturn<A, EA>
+  /** `useService`, accepting only tags the layer provides. */
+  readonly useService: <Id extends R, S>(tag: Context.Tag<Id, S>) => EffectResult<S, never>
+  /** `useEffectCallback`, accepting only effects whose requirements are provided. */
+  readonly useEffectCallback: <A, EA, Args extends ReadonlyArray<unknown>>(
+    fn: (...args: Args) => Effect.Effect<A, EA, R>,
+    options?: UseEffectCallbackOptions<A, EA, Args>,
+  ) => UseEffectCallbackReturn<A, EA, Args>
+  /** The runtime of the nearest provider, typed with the bound services. */
+  readonly useEffectRuntime: () => ManagedRuntime.ManagedRuntime<R, never>
+  /**
+   * Binds a nested layer, which may require this layer's services. Its Provider
+   * must be rendered inside this one's: it builds the layer from the parent's
+   * service instances and, like any nested EffectProvider, inherits them, so
+   * its hooks accept effects requiring services of either layer.
+   */
+  readonly extend: <R2, E2>(layer: Layer.Layer<R2, E2, R>) => EffectReact<R | R2, E | E2>
+}
+
+/**
+ * Creates a Provider and typed hooks for a layer.
+ *
+ * The hooks are the standard ones with narrower types — they share the
+ * runtime, cache and behavior of every other hook under the same provider.
+ *
+ * @example
+ * ```tsx
+ * import { createEffectReact } from 'effect-react'
+ *
+ * export const Bank = createEffectReact(BankLayer)
+ * export const Admin = Bank.extend(AuditLayer) // AuditLayer may require BankService
+ *
+ * function Accounts() {
+ *   const accounts = Bank.useRunEffect(Effect.flatMap(BankService, (b) => b.getAccounts))
+ *   // Bank.useRunEffect(Effect.flatMap(AuditLog, ...))  // compile error: AuditLog is not provided
+ * }
+ *
+ * function App() {
+ *   return (
+ *     <Bank.Provider>
+ *       <Accounts />
+ *       <Admin.Provider>
+ *         <AuditTrail />
+ *       </Admin.Provider>
+ *     </Bank.Provider>
+ *   )
+ * }
+ * ```
+ */
+export function createEffectReact<R, E>(layer: Layer.Layer<R, E, never>): EffectReact<R, E> {
+  return bindLayer(() => layer)
+}
+
+/**
+ * Builds the Provider and typed hooks. `useLayer` is called while the Provider
+ * renders and returns the layer it provides.
+ */
+function bindLayer<R, E>(useLayer: () => Layer.Layer<R, E, never>): EffectReact<R, E> {
+  function Provider<ROut extends R = R, E2 = never>(
+    props: EffectReactProviderProps<R, E, ROut, E2>,
+  ): React.ReactElement {
+    return React.createElement(EffectProvider<R, E, ROut, E2>, { ...props, layer: useLayer() })
+  }
+
+  return {
+    Provider,
+    useRunEffect,
+    useRunEffectControls,
+    useService,
+    useEffectCallback,
+    useEffectRuntime: () => useEffectRuntime<R, never>(),
+    extend: <R2, E2>(childLayer: Layer.Layer<R2, E2, R>) =>
+      bindLayer<R | R2, E | E2>(() => {
+        const parentRuntime = useEffectRuntime<R, never>()
+        // Built once per parent runtime, so the nested provider keeps its services across renders
+        return React.useMemo(
+          () => Layer.provideMerge(childLayer, Layer.succeedContext(parentRuntime.runSync(Effect.context<R>()))),
+          [parentRuntime],
+        )
+      }),
+  }
+}
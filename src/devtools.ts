@@ -0,0 +1,23 @@
+/**
+ * effect-react/devtools: an inspector for the fibers the hooks run
+ *
+ * Opt-in and kept out of the main entry, so apps that do not import it do not
+ * ship it. Give a provider `devtools` to have it report its fibers, and render
+ * `<EffectDevtools />` anywhere to list them — typically only in development:
+ *
+ * ```tsx
+ * import { EffectDevtools, devtools } from 'effect-react/devtools'
+ *
+ * <EffectProvider layer={AppLayer} devtools={import.meta.env.DEV ? devtools : undefined}>
+ * ```
+ */
+import { DevtoolsSupervisor, type ProviderDevtools } from "./supervisor.js"
+
+export { EffectDevtools } from "./components/EffectDevtools.js"
+export type { DevtoolsProvider, DevtoolsFiber, DevtoolsExit, ProviderDevtools } from "./supervisor.js"
+
+/**
+ * Pass as EffectProvider's `devtools` prop: the provider installs a devtools
+ * supervisor in its runtime and reports the fibers its hooks run to `<EffectDevtools />`.
+ */
+export const devtools = (): ProviderDevtools => new DevtoolsSupervisor()
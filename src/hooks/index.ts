@@ -1,11 +1,40 @@
 export { useRunEffect, type UseRunEffectOptions } from "./useRunEffect.js"
+export {
+  useRunEffectControls,
+  type UseRunEffectControlsReturn,
+} from "./useRunEffectControls.js"
+export {
+  useRunEffectSuspense,
+  type UseRunEffectSuspenseOptions,
+} from "./useRunEffectSuspense.js"
 export { useEffectState } from "./useEffectState.js"
-export { useEffectStateAsync } from "./useEffectStateAsync.js"
+export { useEffectStateAsync, type UseEffectStateAsyncOptions } from "./useEffectStateAsync.js"
 export { useService } from "./useService.js"
 export {
   useEffectCallback,
   type UseEffectCallbackReturn,
+  type UseEffectCallbackOptions,
+  type EffectCallbackConcurrency,
 } from "./useEffectCallback.js"
-export { useEffectReducer } from "./useEffectReducer.js"
+export {
+  useEffectForm,
+  type UseEffectFormOptions,
+  type UseEffectFormReturn,
+  type EffectFormErrors,
+} from "./useEffectForm.js"
+export { useEffectReducer, type UseEffectReducerOptions } from "./useEffectReducer.js"
 export { useEffectMemo } from "./useEffectMemo.js"
 export { useEffectRuntime } from "./useEffectRuntime.js"
+export { useInvalidate } from "./useInvalidate.js"
+export { useRequest, type UseRequestOptions } from "./useRequest.js"
+export { useRequestCache, type RequestCacheControls } from "./useRequestCache.js"
+export { useScoped, type UseScopedOptions } from "./useScoped.js"
+export {
+  useStream,
+  type UseStreamOptions,
+  type StreamFold,
+} from "./useStream.js"
+export {
+  useSubscriptionRef,
+  type SubscriptionRefSetter,
+} from "./useSubscriptionRef.js"
@@ -0,0 +1,18 @@
+import * as React from "react"
+import { EffectCacheContext } from "../context.js"
+import type { EffectCache } from "../cache.js"
+
+/**
+ * Internal hook: retrieves the keyed effect cache from the nearest EffectProvider.
+ * Throws if used outside of an EffectProvider.
+ */
+export function useEffectCache(): EffectCache {
+  const ctx = React.useContext(EffectCacheContext)
+  if (ctx === null) {
+    throw new Error(
+      "useEffectCache: No EffectProvider found in component tree. " +
+      "Wrap your component with <EffectProvider layer={...}>.",
+    )
+  }
+  return ctx
+}
@@ -1,14 +1,21 @@
 import * as React from "react"
-import type { Effect } from "effect"
-import { Exit, Cause } from "effect"
+import { Effect, Exit, FiberId, Runtime } from "effect"
 import type { Fiber } from "effect"
 import { useEffectRuntime } from "./useEffectRuntime.js"
-import { type EffectResult, Loading, Success, Failure } from "../types.js"
+import { useEffectCache } from "./useEffectCache.js"
+import { type OptimisticUpdate, withOptimistic } from "../optimistic.js"
+import { type RetryOptions, withRetry } from "../retry.js"
+import { withHookSpan } from "../tracing.js"
+import { type EffectResult, Loading, Retrying, fromExit } from "../types.js"
 import { createComponentStore } from "../reactive.js"
 
 export interface UseEffectCallbackReturn<A, E, Args extends ReadonlyArray<unknown>> {
-  /** Execute the effect with the given arguments */
-  readonly run: (...args: Args) => void
+  /**
+   * Execute the effect with the given arguments.
+   * Resolves with this invocation's Exit — interrupted if it was superseded,
+   * reset, or ignored under `"exhaust"`. Never rejects.
+   */
+  readonly run: (...args: Args) => Promise<Exit.Exit<A, E>>
   /** Current result state */
   readonly result: EffectResult<A, E>
   /** Whether the effect is currently running */
@@ -17,6 +24,50 @@ export interface UseEffectCallbackReturn<A, E, Args extends ReadonlyArray<unknow
   readonly reset: () => void
 }
 
+/**
+ * How `run` treats invocations made while earlier ones are still running.
+ * - switch: interrupt the running invocation and start the new one (default)
+ * - exhaust: ignore new invocations until the running one finishes
+ * - queue: run invocations one after another, in call order
+ * - merge: run invocations in parallel, up to `maxConcurrent` at a time
+ */
+export type EffectCallbackConcurrency = "switch" | "exhaust" | "queue" | "merge"
+
+export interface UseEffectCallbackOptions<A, E = unknown, Args extends ReadonlyArray<any> = ReadonlyArray<any>> {
+  /**
+   * Called with the value of each successful run — e.g. to invalidate
+   * cached effects whose data the run changed (see `useInvalidate`).
+   */
+  readonly onSuccess?: (value: A) => void
+  /**
+   * Retries failures of each run according to a Schedule. While retrying, the result
+   * stays Loading with `attempt` set to the current attempt number.
+   */
+  readonly retry?: RetryOptions<E>
+  /** Name of the tracing span around each invocation. Defaults to `"useEffectCallback"`. */
+  readonly spanName?: string
+  /**
+   * What to do when `run` is called while an earlier invocation is still running.
+   * Defaults to `"switch"`. Use `"exhaust"` or `"queue"` for effects that must not
+   * be interrupted halfway, such as a transfer.
+   */
+  readonly concurrency?: EffectCallbackConcurrency
+  /** Upper bound on parallel invocations with `concurrency: "merge"`. Unbounded by default. */
+  readonly maxConcurrent?: number
+  /**
+   * Updates to cached effects that `run` applies right away, for the UI to show
+   * the expected outcome while the invocation is in flight. They are rolled back
+   * if the invocation fails or is interrupted; after a success they stay until
+   * the cached effects produce their next result (e.g. once invalidated).
+   */
+  readonly optimistic?: (...args: Args) => ReadonlyArray<OptimisticUpdate>
+  /**
+   * When true, a failure (typed error or defect) is thrown during the next render
+   * as a `FiberFailure` carrying the full Cause, for the nearest EffectErrorBoundary to catch.
+   */
+  readonly throwOnFailure?: boolean
+}
+
 type Initial = { readonly _tag: "Initial" }
 const Initial: Initial = { _tag: "Initial" }
 
@@ -28,6 +79,20 @@ type CallbackState<A, E> = Initial | EffectResult<A, E>
  * Unlike useRunEffect which runs automatically, useEffectCallback gives you
  * a function to trigger the effect manually (e.g., on button click).
  *
+ * `concurrency` decides what happens when `run` is called again before an
+ * earlier invocation finishes; see EffectCallbackConcurrency. The result shows
+ * Loading while any invocation is in flight, then the outcome of the last one
+ * to finish — each invocation's own outcome is the Exit that `run` resolves with.
+ *
+ * With `retry`, each run retries failures according to a Schedule, and the
+ * Loading result carries the attempt number while retrying.
+ *
+ * With `optimistic`, each run updates cached effects (see `useRunEffect`'s `key`)
+ * immediately and rolls the updates back if it does not succeed.
+ *
+ * With `throwOnFailure`, failures are handed to the nearest error boundary
+ * instead of being returned as a Failure result.
+ *
  * Internally uses a component-scoped reactive store (SubscriptionRef principles)
  * with useSyncExternalStore for tear-free, consistent reads.
  *
@@ -37,7 +102,8 @@ type CallbackState<A, E> = Initial | EffectResult<A, E>
  *
  * function DeleteButton({ userId }: { userId: string }) {
  *   const { run, result, isLoading } = useEffectCallback(
- *     (id: string) => deleteUser(id)
+ *     (id: string) => deleteUser(id),
+ *     { concurrency: 'exhaust' },
  *   )
  *
  *   return (
@@ -50,8 +116,10 @@ type CallbackState<A, E> = Initial | EffectResult<A, E>
  */
 export function useEffectCallback<A, E, R, Args extends ReadonlyArray<unknown>>(
   fn: (...args: Args) => Effect.Effect<A, E, R>,
+  options?: UseEffectCallbackOptions<A, E, Args>,
 ): UseEffectCallbackReturn<A, E, Args> {
   const runtime = useEffectRuntime<R, never>()
+  const cache = useEffectCache()
 
   // Component-scoped reactive store (Ref + PubSub pattern from SubscriptionRef)
   const storeRef = React.useRef<ReturnType<typeof createComponentStore<CallbackState<A, E>>> | null>(null)
@@ -63,63 +131,113 @@ export function useEffectCallback<A, E, R, Args extends ReadonlyArray<unknown>>(
   // Subscribe to the reactive store
   const state = React.useSyncExternalStore(store.subscribe, store.getSnapshot, store.getSnapshot)
 
-  const fiberRef = React.useRef<Fiber.RuntimeFiber<A, E> | null>(null)
+  // Every invocation still in flight, in start order
+  const fibersRef = React.useRef<Set<Fiber.RuntimeFiber<A, E>>>(new Set())
 
   // Store fn in a ref so `run` doesn't need fn in its deps.
   // This keeps `run` referentially stable across renders even when fn is inline.
   const fnRef = React.useRef(fn)
   fnRef.current = fn
 
-  // Cleanup on unmount
-  React.useEffect(() => {
-    return () => {
-      if (fiberRef.current) {
-        fiberRef.current.unsafeInterruptAsFork(fiberRef.current.id())
-        fiberRef.current = null
-      }
+  // Same for the success handler and retry policy
+  const onSuccessRef = React.useRef(options?.onSuccess)
+  onSuccessRef.current = options?.onSuccess
+  const retryRef = React.useRef(options?.retry)
+  retryRef.current = options?.retry
+  const concurrencyRef = React.useRef(options?.concurrency ?? "switch")
+  concurrencyRef.current = options?.concurrency ?? "switch"
+  const spanNameRef = React.useRef(options?.spanName)
+  spanNameRef.current = options?.spanName
+  const optimisticRef = React.useRef(options?.optimistic)
+  optimisticRef.current = options?.optimistic
+
+  // Queued and merged invocations wait for a permit. The semaphore is rebuilt
+  // only when the permit count changes; invocations holding the old one finish.
+  const permits =
+    options?.concurrency === "queue" ? 1
+    : options?.concurrency === "merge" ? options.maxConcurrent ?? null
+    : null
+  const semaphoreRef = React.useRef<{ readonly permits: number; readonly semaphore: Effect.Semaphore } | null>(null)
+  if (permits === null) {
+    semaphoreRef.current = null
+  } else if (semaphoreRef.current?.permits !== permits) {
+    semaphoreRef.current = { permits, semaphore: Effect.unsafeMakeSemaphore(permits) }
+  }
+
+  const interruptAll = React.useCallback(() => {
+    for (const fiber of fibersRef.current) {
+      fiber.unsafeInterruptAsFork(fiber.id())
     }
+    fibersRef.current.clear()
   }, [])
 
+  // Cleanup on unmount
+  React.useEffect(() => interruptAll, [interruptAll])
+
   const run = React.useCallback(
-    (...args: Args) => {
-      // Interrupt previous execution if still running
-      if (fiberRef.current) {
-        fiberRef.current.unsafeInterruptAsFork(fiberRef.current.id())
+    (...args: Args): Promise<Exit.Exit<A, E>> => {
+      const fibers = fibersRef.current
+      const concurrency = concurrencyRef.current
+
+      if (fibers.size > 0) {
+        if (concurrency === "exhaust") {
+          return Promise.resolve(Exit.interrupt(FiberId.none))
+        }
+        if (concurrency === "switch") {
+          interruptAll()
+        }
       }
 
       store.set(Loading as EffectResult<A, E>)
 
-      const effect = fnRef.current(...args)
+      let effect = withHookSpan(
+        withRetry(fnRef.current(...args), retryRef.current, (attempt) =>
+          store.set(Retrying(attempt) as EffectResult<A, E>),
+        ),
+        "useEffectCallback",
+        spanNameRef.current,
+        { concurrency },
+      )
+      const semaphore = semaphoreRef.current?.semaphore
+      if (semaphore) {
+        effect = semaphore.withPermits(1)(effect)
+      }
+      // Applied outside the semaphore, so queued invocations show theirs at once
+      const optimistic = optimisticRef.current
+      if (optimistic) {
+        effect = withOptimistic(effect, cache, () => optimistic(...args))
+      }
       const fiber = runtime.runFork(effect)
-      fiberRef.current = fiber
-
-      fiber.addObserver((exit) => {
-        // Ignore if a newer fiber has replaced this one
-        if (fiberRef.current !== fiber) return
-        fiberRef.current = null
-        if (Exit.isSuccess(exit)) {
-          store.set(Success(exit.value) as EffectResult<A, E>)
-        } else {
-          if (Cause.isInterruptedOnly(exit.cause)) {
-            return
-          }
-          const failure = Cause.failureOption(exit.cause)
-          if (failure._tag === "Some") {
-            store.set(Failure(failure.value) as EffectResult<A, E>)
+      fibers.add(fiber)
+
+      return new Promise((resolve) => {
+        fiber.addObserver((exit) => {
+          // Ignore if the fiber was superseded, reset or unmounted
+          if (fibers.delete(fiber)) {
+            // Stay Loading while other invocations are in flight
+            const next = fibers.size === 0 ? fromExit(exit) : null
+            if (next !== null) {
+              store.set(next)
+            }
+            if (Exit.isSuccess(exit)) {
+              onSuccessRef.current?.(exit.value)
+            }
           }
-        }
+          resolve(exit)
+        })
       })
     },
-    [runtime, store],
+    [runtime, cache, store, interruptAll],
   )
 
   const reset = React.useCallback(() => {
-    if (fiberRef.current) {
-      fiberRef.current.unsafeInterruptAsFork(fiberRef.current.id())
-      fiberRef.current = null
-    }
+    interruptAll()
     store.set(Initial)
-  }, [store])
+  }, [store, interruptAll])
+
+  if (options?.throwOnFailure && (state._tag === "Failure" || state._tag === "Defect")) {
+    throw Runtime.makeFiberFailure(state.cause)
+  }
 
   const isLoading = state._tag === "Loading"
   const result: EffectResult<A, E> =
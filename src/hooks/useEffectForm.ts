@@ -0,0 +1,231 @@
+import * as React from "react"
+import { Cause, Effect, Exit, Option, ParseResult, Schema } from "effect"
+import { useEffectRuntime } from "./useEffectRuntime.js"
+import { useEffectCallback, type UseEffectCallbackOptions } from "./useEffectCallback.js"
+import { useEffectCache } from "./useEffectCache.js"
+import { type OptimisticUpdate, withOptimistic } from "../optimistic.js"
+import { withHookSpan } from "../tracing.js"
+import type { EffectResult } from "../types.js"
+import { createComponentStore } from "../reactive.js"
+
+export interface UseEffectFormOptions<A, I, B, E, R> extends Omit<
+  UseEffectCallbackOptions<B, E | ParseResult.ParseError>,
+  "maxConcurrent" | "optimistic"
+> {
+  /** The fields' starting values, in the schema's encoded form (e.g. strings from inputs). */
+  readonly initialValues: I
+  /** Runs with the decoded value when the form is submitted and valid. */
+  readonly onSubmit: (value: A) => Effect.Effect<B, E, R>
+  /**
+   * Updates to cached effects to show while `onSubmit` runs, computed from the
+   * decoded value. Rolled back if the submission fails or is interrupted.
+   */
+  readonly optimistic?: (value: A) => ReadonlyArray<OptimisticUpdate>
+}
+
+/** The first issue message of each touched field. */
+export type EffectFormErrors<I> = { readonly [K in keyof I]?: string }
+
+export interface UseEffectFormReturn<I, B, E> {
+  /** Current field values, in the schema's encoded form. */
+  readonly values: I
+  /** Sets one field's value and marks the field as touched. */
+  readonly setValue: <K extends keyof I>(field: K, value: I[K]) => void
+  /** Issue messages of touched fields — every field once `submit` was called. */
+  readonly errors: EffectFormErrors<I>
+  /**
+   * Every issue of the latest validation, touched or not. Issues of the form as
+   * a whole (e.g. a refinement comparing two fields) have an empty path.
+   */
+  readonly issues: ReadonlyArray<ParseResult.ArrayFormatterIssue>
+  /** Whether the current values are still being validated (async refinements included). */
+  readonly isValidating: boolean
+  /** Whether the current values passed validation. */
+  readonly isValid: boolean
+  /**
+   * Validates the values and, if they decode, runs `onSubmit` with the result.
+   * Resolves with the submission's Exit — failing with the ParseError if the values are invalid.
+   */
+  readonly submit: () => Promise<Exit.Exit<B, E | ParseResult.ParseError>>
+  /** Result of the latest submission. */
+  readonly result: EffectResult<B, E | ParseResult.ParseError>
+  /** Whether a submission is running. */
+  readonly isSubmitting: boolean
+  /** Restores the initial values and clears touched fields and the submission result. */
+  readonly reset: () => void
+}
+
+interface Validation {
+  readonly issues: ReadonlyArray<ParseResult.ArrayFormatterIssue>
+  readonly isValidating: boolean
+}
+
+/**
+ * A form whose values are decoded with an `effect/Schema`.
+ *
+ * Values are kept in the schema's encoded form — what inputs produce — and
+ * decoded after every change, reporting each field's issues. Refinements
+ * declared with `Schema.filterEffect` run as effects on the provider's runtime,
+ * so they can use its services (e.g. checking that an account exists); a change
+ * interrupts the validation still running for the previous values.
+ *
+ * `submit` decodes the values once more and hands the result to `onSubmit`,
+ * through `useEffectCallback`: its options (`onSuccess`, `retry`, `concurrency`, ...)
+ * apply to submissions. `concurrency` defaults to `"exhaust"`, so a double click
+ * submits once.
+ *
+ * @example
+ * ```tsx
+ * import { useEffectForm } from 'effect-react'
+ * import { Effect, Schema } from 'effect'
+ *
+ * const AccountId = Schema.String.pipe(
+ *   Schema.filterEffect((id) =>
+ *     Effect.flatMap(BankService, (bank) => bank.getAccount(id)).pipe(
+ *       Effect.as(true),
+ *       Effect.orElseSucceed(() => `Account ${id} does not exist`),
+ *     ),
+ *   ),
+ * )
+ *
+ * const Transfer = Schema.Struct({ to: AccountId, amount: Schema.NumberFromString.pipe(Schema.positive()) })
+ *
+ * function TransferForm({ from }: { from: string }) {
+ *   const form = useEffectForm(Transfer, {
+ *     initialValues: { to: '', amount: '' },
+ *     onSubmit: ({ to, amount }) => Effect.flatMap(BankService, (bank) => bank.transfer(from, to, amount)),
+ *   })
+ *
+ *   return (
+ *     <form onSubmit={(e) => { e.preventDefault(); form.submit() }}>
+ *       <input value={form.values.amount} onChange={(e) => form.setValue('amount', e.target.value)} />
+ *       {form.errors.amount && <p>{form.errors.amount}</p>}
+ *       <button disabled={!form.isValid || form.isSubmitting}>Transfer</button>
+ *     </form>
+ *   )
+ * }
+ * ```
+ */
+export function useEffectForm<A, I, RS, B, E, R>(
+  schema: Schema.Schema<A, I, RS>,
+  options: UseEffectFormOptions<A, I, B, E, R>,
+): UseEffectFormReturn<I, B, E> {
+  const runtime = useEffectRuntime<RS, never>()
+  const cache = useEffectCache()
+  const { initialValues, onSubmit, optimistic, ...submitOptions } = options
+
+  const initialValuesRef = React.useRef(initialValues)
+  const [values, setValues] = React.useState<I>(initialValues)
+  const valuesRef = React.useRef(values)
+  valuesRef.current = values
+
+  // Field keys the user changed, or "all" once the form was submitted
+  const [touched, setTouched] = React.useState<ReadonlySet<keyof I> | "all">(() => new Set())
+
+  // Component-scoped reactive store (Ref + PubSub pattern from SubscriptionRef)
+  const storeRef = React.useRef<ReturnType<typeof createComponentStore<Validation>> | null>(null)
+  if (!storeRef.current) {
+    storeRef.current = createComponentStore<Validation>({ issues: [], isValidating: true })
+  }
+  const store = storeRef.current
+  const validation = React.useSyncExternalStore(store.subscribe, store.getSnapshot, store.getSnapshot)
+
+  // Schemas are often built inline, so validation only re-runs when the values change
+  const schemaRef = React.useRef(schema)
+  schemaRef.current = schema
+  const decode = (input: unknown) => Schema.decodeUnknown(schemaRef.current, { errors: "all" })(input)
+
+  const spanNameRef = React.useRef(options.spanName)
+  spanNameRef.current = options.spanName
+
+  React.useEffect(() => {
+    const current = store.getSnapshot()
+    if (!current.isValidating) {
+      store.set({ issues: current.issues, isValidating: true })
+    }
+
+    const fiber = runtime.runFork(
+      withHookSpan(decode(values), "useEffectForm", spanNameRef.current, { phase: "validate" }),
+    )
+
+    fiber.addObserver((exit) => {
+      if (Exit.isSuccess(exit)) {
+        store.set({ issues: [], isValidating: false })
+        return
+      }
+      const error = Cause.failureOption(exit.cause)
+      if (Option.isSome(error)) {
+        store.set({ issues: ParseResult.ArrayFormatter.formatErrorSync(error.value), isValidating: false })
+      } else if (!Exit.isInterrupted(exit)) {
+        // A refinement died — submit decodes again and reports the defect
+        store.set({ issues: [], isValidating: false })
+      }
+    })
+
+    return () => {
+      fiber.unsafeInterruptAsFork(fiber.id())
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [runtime, values, store])
+
+  const submission = useEffectCallback(
+    (input: I) =>
+      decode(input).pipe(
+        Effect.tapError((error) =>
+          Effect.sync(() =>
+            store.set({ issues: ParseResult.ArrayFormatter.formatErrorSync(error), isValidating: false }),
+          ),
+        ),
+        Effect.flatMap((value) =>
+          optimistic ? withOptimistic(onSubmit(value), cache, () => optimistic(value)) : onSubmit(value),
+        ),
+      ),
+    {
+      ...submitOptions,
+      concurrency: submitOptions.concurrency ?? "exhaust",
+      spanName: submitOptions.spanName ?? "useEffectForm",
+    },
+  )
+
+  const setValue = React.useCallback(<K extends keyof I>(field: K, value: I[K]) => {
+    setValues((previous) => ({ ...previous, [field]: value }))
+    setTouched((previous) => (previous === "all" || previous.has(field) ? previous : new Set(previous).add(field)))
+  }, [])
+
+  const { run, reset: resetSubmission } = submission
+  const submit = React.useCallback(() => {
+    setTouched("all")
+    return run(valuesRef.current)
+  }, [run])
+
+  const reset = React.useCallback(() => {
+    setValues(initialValuesRef.current)
+    setTouched(new Set())
+    resetSubmission()
+  }, [resetSubmission])
+
+  const errors = React.useMemo(() => {
+    const errors: { [K in keyof I]?: string } = {}
+    for (const issue of validation.issues) {
+      const field = issue.path[0] as keyof I | undefined
+      if (field === undefined || errors[field] !== undefined) continue
+      if (touched === "all" || touched.has(field)) {
+        errors[field] = issue.message
+      }
+    }
+    return errors
+  }, [validation.issues, touched])
+
+  return {
+    values,
+    setValue,
+    errors,
+    issues: validation.issues,
+    isValidating: validation.isValidating,
+    isValid: !validation.isValidating && validation.issues.length === 0,
+    submit,
+    result: submission.result,
+    isSubmitting: submission.isLoading,
+    reset,
+  }
+}
@@ -1,10 +1,28 @@
 import * as React from "react"
-import type { Effect } from "effect"
-import { Exit, Cause } from "effect"
+import type { Cause, Effect } from "effect"
+import { Exit } from "effect"
 import type { Fiber } from "effect"
 import { useEffectRuntime } from "./useEffectRuntime.js"
+import { type EffectFailure, fromExit } from "../types.js"
+import { actionName, withHookSpan } from "../tracing.js"
 import { createComponentStore } from "../reactive.js"
 
+export interface UseEffectReducerOptions<A, E> {
+  /**
+   * Called when an Effect returned by the reducer fails with a typed error.
+   * `dispatch` can send a compensating action, e.g. to roll a wizard back a step;
+   * unlike other dispatches, it leaves the failure in place.
+   */
+  readonly onError?: (action: A, error: E, dispatch: (action: A) => void) => void
+  /** Called when an Effect returned by the reducer dies — for reporting unexpected errors. */
+  readonly onDefect?: (action: A, cause: Cause.Cause<E>) => void
+  /**
+   * Name of the tracing span around reducer-returned Effects. Defaults to `"useEffectReducer"`;
+   * the action's `type` (or `_tag`) is recorded on the span either way.
+   */
+  readonly spanName?: string
+}
+
 /**
  * Effect-powered reducer hook — like React's useReducer, but the reducer can return
  * an Effect in addition to a plain value.
@@ -13,14 +31,20 @@ import { createComponentStore } from "../reactive.js"
  * When the reducer returns an Effect, the Effect is executed and the state updates
  * when it completes — the previous state stays visible during execution (no Loading flash).
  *
- * Returns `[state, dispatch, isPending]`:
+ * Returns `[state, dispatch, isPending, failure]`:
  * - `state`: current state value
  * - `dispatch`: sends an action to the reducer
  * - `isPending`: true while a reducer-returned Effect is executing
+ * - `failure`: the Failure or Defect of the last reducer-returned Effect, or null.
+ *   State is left unchanged on failure; the next dispatch clears it, except a
+ *   compensating one made from `onError`.
  *
  * If a new action is dispatched while a previous Effect is still running,
  * the previous Effect is interrupted and only the latest result applies.
  *
+ * `onError` is called with the action and typed error when a reducer Effect fails,
+ * and can dispatch a compensating action; `onDefect` reports Effects that die.
+ *
  * @example
  * ```tsx
  * import { useEffectReducer } from 'effect-react'
@@ -42,11 +66,12 @@ import { createComponentStore } from "../reactive.js"
  * }
  *
  * function Counter() {
- *   const [state, dispatch, isPending] = useEffectReducer(reducer, { count: 0 })
+ *   const [state, dispatch, isPending, failure] = useEffectReducer(reducer, { count: 0 })
  *
  *   return (
  *     <div>
  *       <span>{state.count}</span>
+ *       {failure?._tag === 'Failure' && <Error error={failure.error} />}
  *       <button onClick={() => dispatch({ type: 'increment' })}>+1</button>
  *       <button onClick={() => dispatch({ type: 'loadFromServer' })} disabled={isPending}>
  *         Load
@@ -59,7 +84,8 @@ import { createComponentStore } from "../reactive.js"
 export function useEffectReducer<S, A, E, R>(
   reducer: (state: S, action: A) => S | Effect.Effect<S, E, R>,
   initialState: S,
-): [S, (action: A) => void, boolean] {
+  options?: UseEffectReducerOptions<A, E>,
+): [S, (action: A) => void, boolean, EffectFailure<E> | null] {
   const runtime = useEffectRuntime<R, never>()
 
   // Component-scoped reactive stores
@@ -75,8 +101,15 @@ export function useEffectReducer<S, A, E, R>(
   }
   const pendingStore = pendingStoreRef.current
 
+  const failureStoreRef = React.useRef<ReturnType<typeof createComponentStore<EffectFailure<E> | null>> | null>(null)
+  if (!failureStoreRef.current) {
+    failureStoreRef.current = createComponentStore<EffectFailure<E> | null>(null)
+  }
+  const failureStore = failureStoreRef.current
+
   const state = React.useSyncExternalStore(store.subscribe, store.getSnapshot, store.getSnapshot)
   const isPending = React.useSyncExternalStore(pendingStore.subscribe, pendingStore.getSnapshot, pendingStore.getSnapshot)
+  const failure = React.useSyncExternalStore(failureStore.subscribe, failureStore.getSnapshot, failureStore.getSnapshot)
 
   const fiberRef = React.useRef<Fiber.RuntimeFiber<S, E> | null>(null)
 
@@ -85,6 +118,14 @@ export function useEffectReducer<S, A, E, R>(
   const reducerRef = React.useRef(reducer)
   reducerRef.current = reducer
 
+  // Same for the failure handlers
+  const onErrorRef = React.useRef(options?.onError)
+  onErrorRef.current = options?.onError
+  const onDefectRef = React.useRef(options?.onDefect)
+  onDefectRef.current = options?.onDefect
+  const spanNameRef = React.useRef(options?.spanName)
+  spanNameRef.current = options?.spanName
+
   // Cleanup on unmount
   React.useEffect(() => {
     return () => {
@@ -95,8 +136,13 @@ export function useEffectReducer<S, A, E, R>(
     }
   }, [])
 
-  const dispatch = React.useCallback(
-    (action: A) => {
+  // Runs an action; onError's compensating actions keep the failure visible —
+  // they answer it rather than start over.
+  const run = React.useCallback(
+    function run(action: A, clearFailure: boolean): void {
+      // A new action starts over — the previous failure no longer applies
+      if (clearFailure) failureStore.set(null)
+
       const currentState = store.getSnapshot()
       const result = reducerRef.current(currentState, action)
 
@@ -107,7 +153,9 @@ export function useEffectReducer<S, A, E, R>(
         }
 
         pendingStore.set(true)
-        const fiber = runtime.runFork(result)
+        const fiber = runtime.runFork(
+          withHookSpan(result, "useEffectReducer", spanNameRef.current, { action: actionName(action) }),
+        )
         fiberRef.current = fiber
 
         fiber.addObserver((exit) => {
@@ -118,10 +166,17 @@ export function useEffectReducer<S, A, E, R>(
 
           if (Exit.isSuccess(exit)) {
             store.set(exit.value)
+            return
+          }
+          // For failures, state stays unchanged — the failure slot reports it instead.
+          const next = fromExit(exit)
+          if (next === null) return
+          const failure = next as EffectFailure<E>
+          failureStore.set(failure)
+          if (failure._tag === "Failure") {
+            onErrorRef.current?.(action, failure.error, (compensation) => run(compensation, false))
           } else {
-            if (Cause.isInterruptedOnly(exit.cause)) return
-            // For failures, state stays unchanged — the reducer pattern
-            // doesn't have a natural "failure" slot, so we preserve current state.
+            onDefectRef.current?.(action, failure.cause)
           }
         })
       } else {
@@ -135,10 +190,12 @@ export function useEffectReducer<S, A, E, R>(
         store.set(result)
       }
     },
-    [runtime, store, pendingStore],
+    [runtime, store, pendingStore, failureStore],
   )
 
-  return [state, dispatch, isPending]
+  const dispatch = React.useCallback((action: A) => run(action, true), [run])
+
+  return [state, dispatch, isPending, failure]
 }
 
 /**
@@ -1,12 +1,24 @@
 import * as React from "react"
 import type { Effect } from "effect"
-import { Exit, Cause } from "effect"
 import { useEffectRuntime } from "./useEffectRuntime.js"
-import { type EffectResult, Loading, Success, Failure } from "../types.js"
+import { type RetryOptions, withRetry } from "../retry.js"
+import { withHookSpan } from "../tracing.js"
+import { type EffectResult, Loading, Retrying, Success, fromExit } from "../types.js"
 import { createComponentStore } from "../reactive.js"
 
+export interface UseEffectStateAsyncOptions<E> {
+  /**
+   * Retries failures of the initial effect and of setter effects according to a Schedule.
+   * While the initial effect retries, the result stays Loading with `attempt` set;
+   * a retrying setter effect keeps the current value visible, as usual.
+   */
+  readonly retry?: RetryOptions<E>
+  /** Name of the tracing span around the initial and setter effects. Defaults to `"useEffectStateAsync"`. */
+  readonly spanName?: string
+}
+
 /**
- * Async Effect-powered state hook — wraps results in EffectResult (Loading | Success | Failure).
+ * Async Effect-powered state hook — wraps results in EffectResult (Loading | Success | Failure | Defect).
  *
  * Use this hook when the Effect involves async operations (API calls, timers, etc.).
  * For synchronous Effects, use `useEffectState` instead — it returns the value directly.
@@ -23,7 +35,7 @@ import { createComponentStore } from "../reactive.js"
  * with useSyncExternalStore for tear-free, consistent reads.
  *
  * Returns `[result, setter, isPending]`:
- * - `result`: EffectResult (Loading | Success | Failure)
+ * - `result`: EffectResult (Loading | Success | Failure | Defect)
  * - `setter`: accepts a plain value or an Effect
  * - `isPending`: true while any Effect is in flight — initial load or setter (use for disabling buttons, etc.)
  *
@@ -53,6 +65,7 @@ import { createComponentStore } from "../reactive.js"
  */
 export function useEffectStateAsync<A, E, R>(
   initialEffect: Effect.Effect<A, E, R>,
+  options?: UseEffectStateAsyncOptions<E>,
 ): [EffectResult<A, E>, (next: A | Effect.Effect<A, E, R>) => void, boolean] {
   const runtime = useEffectRuntime<R, never>()
 
@@ -77,22 +90,26 @@ export function useEffectStateAsync<A, E, R>(
   // Capture the initial effect in a ref to avoid re-running on every render
   const initialEffectRef = React.useRef(initialEffect)
 
+  // Latest retry policy, read when an effect starts
+  const retryRef = React.useRef(options?.retry)
+  retryRef.current = options?.retry
+  const spanNameRef = React.useRef(options?.spanName)
+  spanNameRef.current = options?.spanName
+
   // Run the initial effect once on mount
   React.useEffect(() => {
-    const fiber = runtime.runFork(initialEffectRef.current)
+    const effect = withRetry(initialEffectRef.current, retryRef.current, (attempt) =>
+      store.set(Retrying(attempt) as EffectResult<A, E>),
+    )
+    const fiber = runtime.runFork(
+      withHookSpan(effect, "useEffectStateAsync", spanNameRef.current, { phase: "initial" }),
+    )
 
     fiber.addObserver((exit) => {
-      if (Exit.isSuccess(exit)) {
-        pendingStore.set(false)
-        store.set(Success(exit.value) as EffectResult<A, E>)
-      } else {
-        if (Cause.isInterruptedOnly(exit.cause)) return
-        pendingStore.set(false)
-        const failure = Cause.failureOption(exit.cause)
-        if (failure._tag === "Some") {
-          store.set(Failure(failure.value) as EffectResult<A, E>)
-        }
-      }
+      const next = fromExit(exit)
+      if (next === null) return
+      pendingStore.set(false)
+      store.set(next)
     })
 
     return () => {
@@ -114,23 +131,20 @@ export function useEffectStateAsync<A, E, R>(
         // Keep current value visible while effect runs — like useState.
         // No Loading flash. The old value stays until the new one arrives.
         pendingStore.set(true)
-        const fiber = runtime.runFork(next)
+        const fiber = runtime.runFork(
+          withHookSpan(withRetry(next, retryRef.current, () => {}), "useEffectStateAsync", spanNameRef.current, {
+            phase: "set",
+          }),
+        )
         fiberRef.current = fiber
         fiber.addObserver((exit) => {
           // Ignore if a newer fiber has replaced this one
           if (fiberRef.current !== fiber) return
           fiberRef.current = null
-          if (Exit.isSuccess(exit)) {
-            pendingStore.set(false)
-            store.set(Success(exit.value) as EffectResult<A, E>)
-          } else {
-            if (Cause.isInterruptedOnly(exit.cause)) return
-            pendingStore.set(false)
-            const failure = Cause.failureOption(exit.cause)
-            if (failure._tag === "Some") {
-              store.set(Failure(failure.value) as EffectResult<A, E>)
-            }
-          }
+          const next = fromExit(exit)
+          if (next === null) return
+          pendingStore.set(false)
+          store.set(next)
         })
       } else {
         // Plain value — instant update, exactly like useState
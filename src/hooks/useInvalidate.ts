@@ -0,0 +1,37 @@
+import { useEffectCache } from "./useEffectCache.js"
+import type { EffectCacheKey } from "../cache.js"
+
+/**
+ * Returns a function that invalidates keyed effects in the nearest EffectProvider's cache.
+ *
+ * `invalidate(prefix)` re-runs every subscribed `useRunEffect` whose key starts
+ * with `prefix`. A Success stays on screen while it refetches, flagged
+ * `isRefreshing` — optimistic values committed by the mutation included — so
+ * invalidating after a mutation does not flash Loading. Entries with no mounted
+ * subscribers are marked stale and re-run the next time a component subscribes to them.
+ *
+ * The returned function is stable for the lifetime of the provider's runtime.
+ *
+ * @example
+ * ```tsx
+ * import { useEffectCallback, useInvalidate } from 'effect-react'
+ *
+ * function TransferButton({ from, to }: { from: string; to: string }) {
+ *   const invalidate = useInvalidate()
+ *   const { run } = useEffectCallback(
+ *     (amount: number) => transfer(from, to, amount),
+ *     {
+ *       onSuccess: () => {
+ *         invalidate(['accounts'])
+ *         invalidate(['tx'])
+ *       },
+ *     },
+ *   )
+ *
+ *   return <button onClick={() => run(1000)}>Transfer</button>
+ * }
+ * ```
+ */
+export function useInvalidate(): (prefix: EffectCacheKey) => void {
+  return useEffectCache().invalidate
+}
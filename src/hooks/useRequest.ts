@@ -0,0 +1,47 @@
+import { Effect, type Request, RequestResolver } from "effect"
+import { type UseRunEffectOptions, useRunEffectHandle, useUncancelledResult } from "./useRunEffect.js"
+import { hashKey } from "../cache.js"
+import { batchAcrossFibers } from "../requests.js"
+import type { EffectResult } from "../types.js"
+
+/** Options of `useRequest`: useRunEffect's, with the request itself as the only dependency. */
+export type UseRequestOptions<A extends Request.Request<any, any>> = Omit<
+  UseRunEffectOptions<Request.Request.Success<A>, Request.Request.Error<A>>,
+  "deps"
+>
+
+/**
+ * Makes a request with `Effect.request` and returns its EffectResult, like useRunEffect.
+ *
+ * The resolver is wrapped with `batchAcrossFibers`, so the requests made by
+ * every component mounted in one render commit reach it in a single batch —
+ * 20 account rows become one `getByIds` call. Under an EffectProvider with
+ * `requestCache`, identical requests are also resolved only once.
+ *
+ * The request re-runs when it changes by value; requests must be JSON-serializable.
+ *
+ * @example
+ * ```tsx
+ * import { useRequest } from 'effect-react'
+ *
+ * function AccountRow({ id }: { id: string }) {
+ *   const account = useRequest(GetAccount({ id }), AccountResolver)
+ *   if (account._tag !== 'Success') return <RowSkeleton />
+ *   return <Row name={account.value.name} balance={account.value.balance} />
+ * }
+ * ```
+ */
+export function useRequest<A extends Request.Request<any, any>, R>(
+  request: A,
+  resolver: RequestResolver.RequestResolver<A, R>,
+  options?: UseRequestOptions<A>,
+): EffectResult<Request.Request.Success<A>, Request.Request.Error<A>> {
+  const batched = batchAcrossFibers(resolver)
+  return useUncancelledResult(
+    useRunEffectHandle(
+      Effect.request(request, RequestResolver.contextFromEffect(batched)),
+      { ...options, deps: [hashKey([request]), batched] },
+      "useRequest",
+    ),
+  )
+}
@@ -0,0 +1,44 @@
+import * as React from "react"
+import { Effect, type Request } from "effect"
+import { EffectRequestCacheContext } from "../context.js"
+
+export interface RequestCacheControls {
+  /** Drops every cached request — each resolves again the next time it is made. */
+  readonly clear: () => void
+  /** Drops one request. Requests are compared by value, like `Data` classes. */
+  readonly invalidate: (request: Request.Request<any, any>) => void
+}
+
+/**
+ * Controls the request cache of the nearest EffectProvider with `requestCache`.
+ * Throws if no provider above owns one.
+ *
+ * Clearing affects future requests only: hooks keep their results until they
+ * run again, e.g. after `useInvalidate` or a deps change.
+ *
+ * @example
+ * ```tsx
+ * import { useRequestCache } from 'effect-react'
+ *
+ * function SignOutButton() {
+ *   const requests = useRequestCache()
+ *   return <button onClick={() => { signOut(); requests.clear() }}>Sign out</button>
+ * }
+ * ```
+ */
+export function useRequestCache(): RequestCacheControls {
+  const cache = React.useContext(EffectRequestCacheContext)
+  if (cache === null) {
+    throw new Error(
+      "useRequestCache: No request cache found. " +
+      "Pass `requestCache` to an <EffectProvider> above this component.",
+    )
+  }
+  return React.useMemo(
+    () => ({
+      clear: () => Effect.runSync(cache.invalidateAll),
+      invalidate: (request) => Effect.runSync(cache.invalidate(request)),
+    }),
+    [cache],
+  )
+}
@@ -1,27 +1,109 @@
 import * as React from "react"
-import type { Effect } from "effect"
-import { Exit, Cause } from "effect"
+import type { Effect, Fiber, Schedule } from "effect"
+import { Runtime } from "effect"
 import { useEffectRuntime } from "./useEffectRuntime.js"
-import { type EffectResult, Loading, Success, Failure } from "../types.js"
+import { useEffectCache } from "./useEffectCache.js"
+import { EffectResetContext } from "../context.js"
+import { type EffectCacheKey, type EffectCacheSchema, hashKey } from "../cache.js"
+import { type RetryOptions, withRetry } from "../retry.js"
+import { startPolling } from "../refetch.js"
+import { withHookSpan } from "../tracing.js"
+import {
+  type ControllableResult,
+  type EffectResult,
+  Interrupted,
+  Loading,
+  Refreshing,
+  Stale,
+  Success,
+  fromExit,
+  withAttempt,
+} from "../types.js"
 import { createComponentStore } from "../reactive.js"
 
-export interface UseRunEffectOptions {
+export interface UseRunEffectOptions<A = unknown, E = unknown> {
   /**
    * Dependencies array, similar to React's useEffect deps.
-   * The effect re-runs when any dependency changes.
+   * The effect re-runs when any dependency changes — for a keyed effect, the
+   * shared entry re-runs for every component using the key.
    * If omitted, the effect runs once on mount.
    */
   readonly deps?: ReadonlyArray<unknown>
+  /**
+   * Registers the effect in the EffectProvider's cache under this key
+   * (e.g. `["accounts"]`, `["tx", accountId]`). Components using the same key
+   * share one fiber and one result, and `useInvalidate()(prefix)` re-runs them.
+   * The fiber is interrupted once the last of them unmounts before it completes.
+   * The effect re-runs when the key changes, like deps. Must be JSON-serializable.
+   */
+  readonly key?: EffectCacheKey
+  /**
+   * Serializes a keyed result for server rendering: the server encodes the value
+   * with it when dehydrating, and the client decodes it when hydrating.
+   * Only needed when the value is not plain JSON (Dates, Options, classes, ...).
+   */
+  readonly schema?: EffectCacheSchema<A>
+  /**
+   * Retries failures according to a Schedule. While retrying, the result stays
+   * Loading with `attempt` set to the current attempt number — or, for a
+   * background refetch, the Success being refreshed, with `attempt` set.
+   */
+  readonly retry?: RetryOptions<E>
+  /**
+   * Re-runs the effect in the background on this Schedule, e.g. `Schedule.spaced("5 seconds")`
+   * or `Schedule.cron("0 * * * *")`. A Success stays visible, with `isRefreshing` set,
+   * until the new result replaces it. Polling pauses while the document is hidden
+   * and refreshes as soon as it is visible again.
+   */
+  readonly refetch?: Schedule.Schedule<unknown, unknown, never>
+  /**
+   * Keeps the last Success visible while a newer run loads — after deps or the key
+   * change, or on invalidation — instead of returning Loading. The kept result has
+   * `isRefreshing` set and `previousDeps` holding the deps it was produced with
+   * (the key, for keyed effects), so the UI can dim what no longer matches.
+   */
+  readonly keepPreviousData?: boolean
+  /**
+   * Name of the tracing span each run is wrapped in. Defaults to the hook's name —
+   * name it after the component (e.g. `"AccountDashboard.accounts"`) to tell runs apart.
+   */
+  readonly spanName?: string
+  /**
+   * When true, a failure (typed error or defect) is thrown during render as a
+   * `FiberFailure` carrying the full Cause, for the nearest EffectErrorBoundary to catch.
+   * Its `reset()` runs the effect again, keyed ones included.
+   */
+  readonly throwOnFailure?: boolean
 }
 
 /**
- * Runs an Effect and returns a Result<A, E> that tracks loading/success/failure.
+ * Runs an Effect and returns a Result<A, E> that tracks loading/success/failure/defect.
  *
  * The effect is automatically:
  * - Executed when the component mounts (or deps change)
  * - Interrupted when the component unmounts or deps change
  * - Re-executed on dependency changes
  *
+ * With a `key`, the result lives in the provider's cache instead of the component:
+ * it is shared by every component using the same key and re-runs on invalidation.
+ *
+ * Keyed effects also take part in server rendering (see `renderToStringWithEffects`
+ * from `effect-react/server`): the server runs them before the final render, and
+ * a client provider given the `dehydratedState` starts them from Success.
+ *
+ * With `retry`, failed attempts are retried according to a Schedule, and the
+ * Loading result carries the attempt number while retrying — a refetch retries
+ * behind the Success it keeps visible.
+ *
+ * With `refetch`, the effect re-runs on a Schedule while the result stays visible;
+ * `result.isRefreshing` tells a background refetch apart from the first load.
+ *
+ * With `keepPreviousData`, a new run shows the previous value, flagged as stale,
+ * instead of Loading — lists don't flash empty when deps change.
+ *
+ * With `throwOnFailure`, failures are handed to the nearest error boundary
+ * instead of being returned as a Failure result.
+ *
  * Internally uses a component-scoped reactive store (SubscriptionRef principles)
  * with useSyncExternalStore for tear-free, consistent reads.
  *
@@ -34,52 +116,227 @@ export interface UseRunEffectOptions {
  *
  *   if (result._tag === 'Loading') return <Spinner />
  *   if (result._tag === 'Failure') return <Error error={result.error} />
+ *   if (result._tag === 'Defect') return <Crash cause={result.cause} />
  *   return <Profile user={result.value} />
  * }
  * ```
  */
 export function useRunEffect<A, E, R>(
   effect: Effect.Effect<A, E, R>,
-  options?: UseRunEffectOptions,
+  options?: UseRunEffectOptions<A, E>,
 ): EffectResult<A, E> {
+  return useUncancelledResult(useRunEffectHandle(effect, options, "useRunEffect"))
+}
+
+/**
+ * The result of a hook without cancel controls. Only useRunEffectControls cancels
+ * runs; a keyed run it cancelled cannot be shown as Interrupted here, and this
+ * component still needs the value, so it runs the entry again.
+ * @internal
+ */
+export function useUncancelledResult<A, E>({ result, refetch }: RunEffectHandle<A, E>): EffectResult<A, E> {
+  const interrupted = result._tag === "Interrupted"
+  React.useEffect(() => {
+    if (interrupted) refetch()
+  }, [interrupted, refetch])
+  return interrupted ? (Loading as EffectResult<A, E>) : result
+}
+
+/**
+ * What useRunEffect and useRunEffectControls share: the current result and the
+ * controls of the current run.
+ * @internal
+ */
+export interface RunEffectHandle<A, E> {
+  readonly result: ControllableResult<A, E>
+  readonly refetch: () => void
+  readonly cancel: () => void
+}
+
+interface RunControls {
+  readonly refetch: () => void
+  readonly cancel: () => void
+  /** Starts a background run for polling, or joins the running one. */
+  readonly poll: () => Fiber.RuntimeFiber<unknown, unknown> | null
+}
+
+/**
+ * Runs the effect on the provider's runtime — or through its cache, for keyed
+ * effects — for as long as the component is mounted with the same deps.
+ * @internal
+ */
+export function useRunEffectHandle<A, E, R>(
+  effect: Effect.Effect<A, E, R>,
+  options: UseRunEffectOptions<A, E> | undefined,
+  hook: string,
+): RunEffectHandle<A, E> {
   const runtime = useEffectRuntime<R, never>()
+  const cache = useEffectCache()
+  const registerReset = React.useContext(EffectResetContext)
   const deps = options?.deps
+  const key = options?.key
+  const keyHash = key ? hashKey(key) : null
 
   // Component-scoped reactive store (Ref + PubSub pattern from SubscriptionRef)
-  const storeRef = React.useRef<ReturnType<typeof createComponentStore<EffectResult<A, E>>> | null>(null)
+  const storeRef = React.useRef<ReturnType<typeof createComponentStore<ControllableResult<A, E>>> | null>(null)
   if (!storeRef.current) {
-    storeRef.current = createComponentStore<EffectResult<A, E>>(Loading as EffectResult<A, E>)
+    storeRef.current = createComponentStore<ControllableResult<A, E>>(Loading as EffectResult<A, E>)
+  }
+  const localStore = storeRef.current
+
+  // Keyed effects read the provider cache's shared store instead
+  const entry = key ? cache.entry<A, E>(key, options?.schema) : null
+  const store = entry ? entry.result : localStore
+
+  // Retries report their attempt number through whichever store is read,
+  // keeping a Success visible while a refresh retries
+  const runnable = withHookSpan(
+    withRetry(effect, options?.retry, (attempt) =>
+      entry ? entry.retrying(attempt) : localStore.set(withAttempt(localStore.getSnapshot(), attempt)),
+    ),
+    hook,
+    options?.spanName,
+    { deps, key },
+  )
+
+  if (key) {
+    // Effects never run on the server — a server cache starts the keyed ones here
+    cache.collect(key, runnable, options?.schema)
   }
-  const store = storeRef.current
 
   // Subscribe to the reactive store — re-renders when store.set() is called
   const result = React.useSyncExternalStore(store.subscribe, store.getSnapshot, store.getSnapshot)
 
+  // Deps of the run the local store's result comes from
+  const runDepsRef = React.useRef<ReadonlyArray<unknown>>(deps ?? [])
+
+  // Controls of the current run — set by the effect below
+  const controlsRef = React.useRef<RunControls | null>(null)
+
+  // Key and deps the keyed entry was last retained with
+  const retainedRef = React.useRef<{ readonly keyHash: string; readonly deps: ReadonlyArray<unknown> } | null>(null)
+
   React.useEffect(() => {
-    store.set(Loading as EffectResult<A, E>)
+    if (key && keyHash !== null) {
+      controlsRef.current = {
+        refetch: () => cache.refetch(key),
+        cancel: () => cache.cancel(key),
+        poll: () => null,
+      }
+      // Same key, new deps: the cached result was produced with the old ones
+      const retained = retainedRef.current
+      const rerun = retained !== null && retained.keyHash === keyHash && !sameDeps(retained.deps, deps ?? [])
+      retainedRef.current = { keyHash, deps: deps ?? [] }
+      // The cache runs the effect (or shares the running/cached one)
+      return cache.retain(key, runnable, rerun)
+    }
 
-    const fiber = runtime.runFork(effect)
+    runDepsRef.current = deps ?? []
 
-    fiber.addObserver((exit) => {
-      if (Exit.isSuccess(exit)) {
-        store.set(Success(exit.value) as EffectResult<A, E>)
-      } else {
-        const cause = exit.cause
-        if (Cause.isInterruptedOnly(cause)) {
-          return
-        }
-        const failure = Cause.failureOption(cause)
-        if (failure._tag === "Some") {
-          store.set(Failure(failure.value) as EffectResult<A, E>)
-        }
+    let fiber: Fiber.RuntimeFiber<A, E> | null = null
+    // Like the cache's runs: a refresh keeps a Success visible, a poll joins the running fiber
+    const start = (refresh?: "refetch" | "poll") => {
+      if (fiber) {
+        if (refresh === "poll") return fiber
+        fiber.unsafeInterruptAsFork(fiber.id())
+      }
+      const current = store.getSnapshot()
+      if (refresh && current._tag === "Success") {
+        store.set(Refreshing(current.value))
+      } else if (refresh !== "poll" || current._tag === "Interrupted") {
+        store.set(Loading as EffectResult<A, E>)
       }
-    })
+
+      const started = runtime.runFork(runnable)
+      fiber = started
+      started.addObserver((exit) => {
+        if (fiber === started) fiber = null
+        // Interrupted fibers were superseded — they have no result to show
+        const next = fromExit(exit)
+        if (next !== null) {
+          store.set(next)
+        }
+      })
+      return started
+    }
+    start()
+
+    controlsRef.current = {
+      refetch: () => {
+        start("refetch")
+      },
+      cancel: () => {
+        if (fiber === null) return
+        const running = fiber
+        fiber = null
+        running.unsafeInterruptAsFork(running.id())
+        const current = store.getSnapshot()
+        store.set(current._tag === "Success" ? Success(current.value) : Interrupted())
+      },
+      poll: () => start("poll"),
+    }
 
     return () => {
-      fiber.unsafeInterruptAsFork(fiber.id())
+      fiber?.unsafeInterruptAsFork(fiber.id())
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, deps ? [runtime, ...deps] : [runtime])
+  }, deps ? [runtime, keyHash, ...deps] : [runtime, keyHash])
+
+  // Schedules are often built inline, so polling only restarts when it is turned on or off
+  const refetchRef = React.useRef(options?.refetch)
+  refetchRef.current = options?.refetch
+  const polling = options?.refetch !== undefined
+
+  React.useEffect(() => {
+    const schedule = refetchRef.current
+    if (!polling || !schedule) return
+    if (key) {
+      // Components sharing the key share one poll
+      return cache.poll(key, schedule)
+    }
+    return startPolling(runtime, schedule, () => controlsRef.current?.poll() ?? null)
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [runtime, keyHash, polling])
+
+  const refetch = React.useCallback(() => controlsRef.current?.refetch(), [])
+  const cancel = React.useCallback(() => controlsRef.current?.cancel(), [])
+
+  // The last Success and its stale stand-in, built once so the result stays referentially stable
+  const previousRef = React.useRef<{
+    readonly value: A
+    readonly source: unknown
+    readonly stale: EffectResult<A, E>
+  } | null>(null)
+  if (options?.keepPreviousData) {
+    if (result._tag === "Success") {
+      const source = keyHash ?? runDepsRef.current
+      const previous = previousRef.current
+      if (previous?.value !== result.value || previous.source !== source) {
+        previousRef.current = { value: result.value, source, stale: Stale(result.value, key ?? runDepsRef.current) }
+      }
+    } else if (result._tag === "Failure" || result._tag === "Defect") {
+      previousRef.current = null
+    }
+  }
+
+  if (options?.throwOnFailure && (result._tag === "Failure" || result._tag === "Defect")) {
+    // A keyed failure stays cached for every reader of the key — until the
+    // boundary that catches it resets, and the remounted component runs the effect again.
+    if (key) {
+      const failedKey = key
+      registerReset?.(() => cache.reset(failedKey))
+    }
+    throw Runtime.makeFiberFailure(result.cause)
+  }
+
+  const shown =
+    options?.keepPreviousData && result._tag === "Loading" && previousRef.current
+      ? previousRef.current.stale
+      : result
+
+  return React.useMemo(() => ({ result: shown, refetch, cancel }), [shown, refetch, cancel])
+}
 
-  return result
+function sameDeps(a: ReadonlyArray<unknown>, b: ReadonlyArray<unknown>): boolean {
+  return a.length === b.length && a.every((dep, i) => Object.is(dep, b[i]))
 }
@@ -0,0 +1,84 @@
+import * as React from "react"
+import { Exit } from "effect"
+import type { Effect } from "effect"
+import { type UseRunEffectOptions, useRunEffectHandle } from "./useRunEffect.js"
+import type { ControllableResult } from "../types.js"
+
+export interface UseRunEffectControlsReturn<A, E> {
+  /** Current result — Interrupted once a run was cancelled before it completed. */
+  readonly result: ControllableResult<A, E>
+  /**
+   * Runs the effect again now, interrupting the run in flight. A Success stays
+   * visible, with `isRefreshing` set, until the new result replaces it.
+   */
+  readonly refetch: () => void
+  /**
+   * Interrupts the run in flight. A first load becomes Interrupted; a refresh
+   * leaves the previous Success as it was. `refetch` starts over.
+   */
+  readonly cancel: () => void
+  /** Whether a refetch is running behind a visible Success. */
+  readonly isRefreshing: boolean
+  /** Exit of the latest run that completed or was cancelled, or null before the first. */
+  readonly lastExit: Exit.Exit<A, E> | null
+}
+
+/**
+ * useRunEffect with manual controls: returns the result together with
+ * `refetch` and `cancel`, e.g. for a "Retry" button after a failure or a
+ * "Cancel" button on a slow load. Takes the same options as useRunEffect.
+ *
+ * With a `key`, `refetch` and `cancel` act on the shared cache entry, for every
+ * component using the key. A cancel only sticks while no plain useRunEffect
+ * reads the key: those components still need the value, so they run it again.
+ *
+ * @example
+ * ```tsx
+ * import { useRunEffectControls } from 'effect-react'
+ *
+ * function Report({ id }: { id: string }) {
+ *   const { result, refetch, cancel } = useRunEffectControls(buildReport(id), { deps: [id] })
+ *
+ *   switch (result._tag) {
+ *     case 'Loading': return <button onClick={cancel}>Cancel</button>
+ *     case 'Interrupted': return <button onClick={refetch}>Start again</button>
+ *     case 'Failure':
+ *     case 'Defect': return <button onClick={refetch}>Retry</button>
+ *     case 'Success': return <ReportView report={result.value} />
+ *   }
+ * }
+ * ```
+ */
+export function useRunEffectControls<A, E, R>(
+  effect: Effect.Effect<A, E, R>,
+  options?: UseRunEffectOptions<A, E>,
+): UseRunEffectControlsReturn<A, E> {
+  const { result, refetch, cancel } = useRunEffectHandle(effect, options, "useRunEffectControls")
+
+  // Derived from the settled results, so keyed runs of other components count too
+  const lastExitRef = React.useRef<Exit.Exit<A, E> | null>(null)
+  const previous = lastExitRef.current
+  switch (result._tag) {
+    case "Success":
+      // A stale value kept by keepPreviousData comes from an earlier run
+      if (result.previousDeps === undefined && !(previous && Exit.isSuccess(previous) && previous.value === result.value)) {
+        lastExitRef.current = Exit.succeed(result.value)
+      }
+      break
+    case "Failure":
+    case "Defect":
+    case "Interrupted":
+      if (!(previous && Exit.isFailure(previous) && previous.cause === result.cause)) {
+        lastExitRef.current = Exit.failCause(result.cause)
+      }
+      break
+  }
+
+  const lastExit = lastExitRef.current
+  const isRefreshing = result._tag === "Success" && result.isRefreshing === true
+
+  return React.useMemo(
+    () => ({ result, refetch, cancel, isRefreshing, lastExit }),
+    [result, refetch, cancel, isRefreshing, lastExit],
+  )
+}
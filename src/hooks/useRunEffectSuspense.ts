@@ -0,0 +1,193 @@
+import * as React from "react"
+import type { Effect, Fiber, ManagedRuntime } from "effect"
+import { Duration, Exit, Runtime } from "effect"
+import { useEffectRuntime } from "./useEffectRuntime.js"
+import { type EffectCacheKey, hashKey } from "../cache.js"
+import { EffectResetContext } from "../context.js"
+
+export interface UseRunEffectSuspenseOptions {
+  /**
+   * Identifies the effect across render attempts.
+   *
+   * A suspended component keeps no state between attempts, so the key is how
+   * a retried render finds the fiber started by the first attempt. Like deps,
+   * the effect re-runs when the key changes — include every value the effect
+   * depends on. Must be JSON-serializable.
+   */
+  readonly key: EffectCacheKey
+  /**
+   * How long a started effect waits for its component to render again or commit
+   * before the suspended subtree is considered abandoned and the fiber is interrupted.
+   * Defaults to 30 seconds.
+   */
+  readonly abandonAfter?: Duration.DurationInput
+}
+
+/**
+ * A fiber started by a render attempt, shared by every attempt (and every
+ * committed component) that uses the same key under the same provider.
+ */
+interface SuspenseEntry {
+  readonly fiber: Fiber.RuntimeFiber<unknown, unknown>
+  readonly promise: Promise<void>
+  exit: Exit.Exit<unknown, unknown> | null
+  /** Number of committed components currently using this entry. */
+  retainers: number
+  abandonTimer: ReturnType<typeof setTimeout> | null
+}
+
+type SuspenseCache = Map<string, SuspenseEntry>
+
+const DEFAULT_ABANDON_AFTER: Duration.DurationInput = "30 seconds"
+
+// One cache per ManagedRuntime — entries never leak across providers,
+// and the whole cache is collected together with its runtime.
+const suspenseCaches = new WeakMap<ManagedRuntime.ManagedRuntime<any, any>, SuspenseCache>()
+
+/**
+ * Suspending variant of useRunEffect — returns the plain value and lets
+ * a `<Suspense>` boundary render the loading state.
+ *
+ * While the fiber runs, the hook throws a promise that settles when the fiber exits.
+ * On failure it throws a `FiberFailure` carrying the full `Cause`, so the nearest
+ * error boundary receives it. An EffectErrorBoundary's `reset()` drops the failure,
+ * so the remounted component runs the effect again.
+ *
+ * The effect runs on the nearest EffectProvider's runtime and is:
+ * - Started by the first render attempt for its key
+ * - Shared with every component that renders the same key under the same provider
+ * - Interrupted when the last committed component unmounts or moves to another key
+ * - Interrupted when the suspended subtree is abandoned (never commits within `abandonAfter`)
+ *
+ * @example
+ * ```tsx
+ * import { Suspense, useRunEffectSuspense } from 'effect-react'
+ *
+ * function UserProfile({ userId }: { userId: string }) {
+ *   const user = useRunEffectSuspense(getUserById(userId), { key: ['user', userId] })
+ *   return <Profile user={user} />
+ * }
+ *
+ * function Page({ userId }: { userId: string }) {
+ *   return (
+ *     <Suspense fallback={<Spinner />}>
+ *       <UserProfile userId={userId} />
+ *     </Suspense>
+ *   )
+ * }
+ * ```
+ */
+export function useRunEffectSuspense<A, E, R>(
+  effect: Effect.Effect<A, E, R>,
+  options: UseRunEffectSuspenseOptions,
+): A {
+  const runtime = useEffectRuntime<R, never>()
+  const registerReset = React.useContext(EffectResetContext)
+  const cache = getSuspenseCache(runtime)
+  const hash = hashKey(options.key)
+
+  let entry = cache.get(hash)
+  if (!entry) {
+    entry = startEntry(runtime, effect)
+    cache.set(hash, entry)
+  }
+  if (entry.retainers === 0) {
+    // Not committed anywhere yet — every render attempt pushes the
+    // abandonment deadline back, so only a subtree React gave up on expires.
+    scheduleAbandon(cache, hash, entry, Duration.toMillis(options.abandonAfter ?? DEFAULT_ABANDON_AFTER))
+  }
+
+  const committedEntry = entry
+  React.useEffect(() => {
+    committedEntry.retainers++
+    if (committedEntry.abandonTimer !== null) {
+      clearTimeout(committedEntry.abandonTimer)
+      committedEntry.abandonTimer = null
+    }
+    return () => {
+      committedEntry.retainers--
+      // Defer eviction so StrictMode's unmount→remount cycle re-retains
+      // the entry instead of restarting the effect.
+      queueMicrotask(() => {
+        if (committedEntry.retainers === 0) {
+          evict(cache, hash, committedEntry)
+        }
+      })
+    }
+  }, [cache, hash, committedEntry])
+
+  if (entry.exit === null) {
+    throw entry.promise
+  }
+  if (Exit.isSuccess(entry.exit)) {
+    return entry.exit.value as A
+  }
+  // The failure stays cached so React's retry renders throw it too — until
+  // the boundary that catches it resets, and the remounted component runs the effect again.
+  const failed = entry
+  registerReset?.(() => evict(cache, hash, failed))
+  throw Runtime.makeFiberFailure(entry.exit.cause)
+}
+
+function getSuspenseCache(runtime: ManagedRuntime.ManagedRuntime<any, any>): SuspenseCache {
+  let cache = suspenseCaches.get(runtime)
+  if (!cache) {
+    cache = new Map()
+    suspenseCaches.set(runtime, cache)
+  }
+  return cache
+}
+
+function startEntry<A, E, R>(
+  runtime: ManagedRuntime.ManagedRuntime<R, never>,
+  effect: Effect.Effect<A, E, R>,
+): SuspenseEntry {
+  const fiber = runtime.runFork(effect) as Fiber.RuntimeFiber<unknown, unknown>
+  let settle!: () => void
+  const entry: SuspenseEntry = {
+    fiber,
+    promise: new Promise<void>((resolve) => {
+      settle = resolve
+    }),
+    exit: null,
+    retainers: 0,
+    abandonTimer: null,
+  }
+  fiber.addObserver((exit) => {
+    entry.exit = exit
+    // Settles on every exit, interruption included: if React is still
+    // waiting on this promise, its retry starts a fresh fiber.
+    settle()
+  })
+  return entry
+}
+
+function scheduleAbandon(
+  cache: SuspenseCache,
+  hash: string,
+  entry: SuspenseEntry,
+  abandonAfter: number,
+): void {
+  if (entry.abandonTimer !== null) {
+    clearTimeout(entry.abandonTimer)
+  }
+  entry.abandonTimer = setTimeout(() => {
+    entry.abandonTimer = null
+    if (entry.retainers === 0) {
+      evict(cache, hash, entry)
+    }
+  }, abandonAfter)
+}
+
+function evict(cache: SuspenseCache, hash: string, entry: SuspenseEntry): void {
+  if (entry.abandonTimer !== null) {
+    clearTimeout(entry.abandonTimer)
+    entry.abandonTimer = null
+  }
+  if (cache.get(hash) === entry) {
+    cache.delete(hash)
+  }
+  if (entry.exit === null) {
+    entry.fiber.unsafeInterruptAsFork(entry.fiber.id())
+  }
+}
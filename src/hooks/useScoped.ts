@@ -0,0 +1,95 @@
+import * as React from "react"
+import { Effect, Exit, Fiber, Scope } from "effect"
+import { useEffectRuntime } from "./useEffectRuntime.js"
+import { type EffectResult, Loading, fromExit } from "../types.js"
+import { createComponentStore } from "../reactive.js"
+
+export interface UseScopedOptions {
+  /**
+   * Dependencies array, similar to React's useEffect deps.
+   * The scope is closed and the effect re-run in a new one when any dependency changes.
+   * If omitted, the effect runs once on mount.
+   */
+  readonly deps?: ReadonlyArray<unknown>
+}
+
+/**
+ * Runs an Effect that requires a `Scope`, with the scope tied to the component.
+ *
+ * Resources acquired with `Effect.acquireRelease` (a WebSocket, a timer,
+ * a subscription, ...) stay open while the component is mounted; their
+ * finalizers run when it unmounts or deps change — after the effect itself
+ * has been interrupted, if it was still running. On a deps change, the new
+ * effect starts only once the previous scope has closed.
+ *
+ * Returns an EffectResult for the effect's value, like useRunEffect.
+ *
+ * Internally uses a component-scoped reactive store (SubscriptionRef principles)
+ * with useSyncExternalStore for tear-free, consistent reads.
+ *
+ * @example
+ * ```tsx
+ * import { useScoped } from 'effect-react'
+ *
+ * function LiveQuotes({ symbol }: { symbol: string }) {
+ *   const socket = useScoped(
+ *     Effect.acquireRelease(
+ *       Effect.sync(() => new WebSocket(`wss://quotes.example/${symbol}`)),
+ *       (ws) => Effect.sync(() => ws.close()),
+ *     ),
+ *     { deps: [symbol] },
+ *   )
+ *
+ *   if (socket._tag !== 'Success') return <Spinner />
+ *   return <Quotes socket={socket.value} />
+ * }
+ * ```
+ */
+export function useScoped<A, E, R>(
+  effect: Effect.Effect<A, E, R | Scope.Scope>,
+  options?: UseScopedOptions,
+): EffectResult<A, E> {
+  const runtime = useEffectRuntime<Exclude<R, Scope.Scope>, never>()
+  const deps = options?.deps
+
+  // Component-scoped reactive store (Ref + PubSub pattern from SubscriptionRef)
+  const storeRef = React.useRef<ReturnType<typeof createComponentStore<EffectResult<A, E>>> | null>(null)
+  if (!storeRef.current) {
+    storeRef.current = createComponentStore<EffectResult<A, E>>(Loading as EffectResult<A, E>)
+  }
+  const store = storeRef.current
+
+  // Subscribe to the reactive store — re-renders when store.set() is called
+  const result = React.useSyncExternalStore(store.subscribe, store.getSnapshot, store.getSnapshot)
+
+  // Closing of the previous scope, which the next run waits for
+  const closingRef = React.useRef<Fiber.RuntimeFiber<void> | null>(null)
+
+  React.useEffect(() => {
+    store.set(Loading as EffectResult<A, E>)
+
+    // The scope outlives the effect: it stays open until cleanup
+    const scope = Effect.runSync(Scope.make())
+    const scoped = Scope.extend(effect, scope) as Effect.Effect<A, E, Exclude<R, Scope.Scope>>
+    const closing = closingRef.current
+    const fiber = runtime.runFork(closing ? Effect.zipRight(Fiber.await(closing), scoped) : scoped)
+
+    fiber.addObserver((exit) => {
+      // Interrupted fibers were superseded — they have no result to show
+      const next = fromExit(exit)
+      if (next !== null) {
+        store.set(next)
+      }
+    })
+
+    return () => {
+      // Stop the effect first, so finalizers never run while it still uses the resources
+      closingRef.current = runtime.runFork(
+        Fiber.interrupt(fiber).pipe(Effect.zipRight(Scope.close(scope, Exit.void))),
+      )
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, deps ? [runtime, ...deps] : [runtime])
+
+  return result
+}
@@ -1,14 +1,14 @@
 import * as React from "react"
-import { Exit, Cause, type Context } from "effect"
+import type { Context, Exit } from "effect"
 import { useEffectRuntime } from "./useEffectRuntime.js"
-import { type EffectResult, Loading, Success, Failure } from "../types.js"
+import { type EffectResult, Loading, fromExit } from "../types.js"
 import { createComponentStore } from "../reactive.js"
 
 /**
  * Accesses a service from the EffectProvider's Layer.
  *
  * Returns an EffectResult that resolves to the service instance
- * once the runtime is ready.
+ * once the runtime is ready, or to a Defect if no provider supplies the tag.
  *
  * Internally uses a component-scoped reactive store (SubscriptionRef principles)
  * with useSyncExternalStore for tear-free, consistent reads.
@@ -46,11 +46,10 @@ export function useService<Id, S>(
     const fiber = runtime.runFork(tag as any)
 
     fiber.addObserver((exit) => {
-      if (Exit.isSuccess(exit)) {
-        store.set(Success(exit.value) as EffectResult<S, never>)
-      } else {
-        if (Cause.isInterruptedOnly(exit.cause)) return
-        store.set(Failure(exit.cause) as EffectResult<S, never>)
+      // A missing service is a defect, not a typed failure
+      const next = fromExit(exit as Exit.Exit<S, never>)
+      if (next !== null) {
+        store.set(next)
       }
     })
 
@@ -0,0 +1,137 @@
+import * as React from "react"
+import { Chunk, Effect, Exit, Option, Stream } from "effect"
+import { useEffectRuntime } from "./useEffectRuntime.js"
+import { type StreamResult, Waiting, Emitting, Done, fromExit } from "../types.js"
+import { createComponentStore } from "../reactive.js"
+
+/**
+ * Accumulates stream elements into a single value, like `Stream.runFold`.
+ */
+export interface StreamFold<A, S> {
+  readonly initial: S
+  readonly step: (acc: S, element: A) => S
+}
+
+export interface UseStreamOptions<A, S> {
+  /**
+   * Dependencies array, similar to React's useEffect deps.
+   * The stream is interrupted and restarted when any dependency changes.
+   * If omitted, the stream starts once on mount.
+   */
+  readonly deps?: ReadonlyArray<unknown>
+  /**
+   * Folds every element into an accumulated value instead of keeping only the latest.
+   * For example `{ initial: Chunk.empty(), step: Chunk.append }` collects all elements.
+   */
+  readonly fold?: StreamFold<A, S>
+}
+
+/**
+ * Runs an Effect Stream and returns a StreamResult that tracks its elements,
+ * completion and failure.
+ *
+ * The stream is automatically:
+ * - Run on the nearest EffectProvider's runtime when the component mounts (or deps change)
+ * - Interrupted when the component unmounts or deps change
+ *
+ * By default `value` is the latest element. With `fold`, every element is folded
+ * into an accumulated value. Elements arriving in the same chunk are applied
+ * together, so a chunk causes one re-render rather than one per element.
+ *
+ * Internally uses a component-scoped reactive store (SubscriptionRef principles)
+ * with useSyncExternalStore for tear-free, consistent reads.
+ *
+ * @example
+ * ```tsx
+ * import { useStream } from 'effect-react'
+ * import { Chunk } from 'effect'
+ *
+ * function BalanceTicker({ accountId }: { accountId: string }) {
+ *   const balance = useStream(balanceUpdates(accountId), { deps: [accountId] })
+ *
+ *   if (balance._tag === 'Waiting') return <Spinner />
+ *   if (balance._tag === 'Failure') return <Error error={balance.error} />
+ *   if (balance._tag === 'Emitting') return <Amount live value={balance.value} />
+ *   return null
+ * }
+ *
+ * function Feed() {
+ *   const events = useStream(eventStream, {
+ *     fold: { initial: Chunk.empty<Event>(), step: Chunk.append },
+ *   })
+ *   // events.value is a Chunk<Event> of everything received so far
+ * }
+ * ```
+ */
+export function useStream<A, E, R>(
+  stream: Stream.Stream<A, E, R>,
+  options?: UseStreamOptions<A, never> & { readonly fold?: undefined },
+): StreamResult<A, E>
+export function useStream<A, E, R, S>(
+  stream: Stream.Stream<A, E, R>,
+  options: UseStreamOptions<A, S> & { readonly fold: StreamFold<A, S> },
+): StreamResult<S, E>
+export function useStream<A, E, R, S>(
+  stream: Stream.Stream<A, E, R>,
+  options?: UseStreamOptions<A, S>,
+): StreamResult<A | S, E> {
+  const runtime = useEffectRuntime<R, never>()
+  const deps = options?.deps
+
+  // Component-scoped reactive store (Ref + PubSub pattern from SubscriptionRef)
+  const storeRef = React.useRef<ReturnType<typeof createComponentStore<StreamResult<A | S, E>>> | null>(null)
+  if (!storeRef.current) {
+    storeRef.current = createComponentStore<StreamResult<A | S, E>>(Waiting as StreamResult<A | S, E>)
+  }
+  const store = storeRef.current
+
+  // Subscribe to the reactive store — re-renders when store.set() is called
+  const result = React.useSyncExternalStore(store.subscribe, store.getSnapshot, store.getSnapshot)
+
+  // Store the fold in a ref so an inline `fold` object doesn't restart the stream
+  const foldRef = React.useRef(options?.fold)
+  foldRef.current = options?.fold
+
+  React.useEffect(() => {
+    store.set(Waiting as StreamResult<A | S, E>)
+
+    const fold = foldRef.current
+    let latest: Option.Option<A | S> = Option.none()
+    let acc = fold?.initial as S
+
+    const fiber = runtime.runFork(
+      Stream.runForEachChunk(stream, (chunk) =>
+        Effect.sync(() => {
+          if (Chunk.isEmpty(chunk)) return
+          if (fold) {
+            acc = Chunk.reduce(chunk, acc, fold.step)
+            latest = Option.some(acc)
+          } else {
+            latest = Option.some(Chunk.unsafeLast(chunk))
+          }
+          store.set(Emitting(Option.getOrThrow(latest)) as StreamResult<A | S, E>)
+        }),
+      ),
+    )
+
+    fiber.addObserver((exit) => {
+      if (Exit.isSuccess(exit)) {
+        // A fold that saw no elements still completes with its initial value
+        store.set(Done(fold && Option.isNone(latest) ? Option.some(acc) : latest) as StreamResult<A | S, E>)
+        return
+      }
+      // Interrupted streams were superseded — they have no result to show
+      const next = fromExit(exit)
+      if (next !== null) {
+        store.set(next as StreamResult<A | S, E>)
+      }
+    })
+
+    return () => {
+      fiber.unsafeInterruptAsFork(fiber.id())
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, deps ? [runtime, ...deps] : [runtime])
+
+  return result
+}
@@ -0,0 +1,112 @@
+import * as React from "react"
+import { Effect, Stream, SubscriptionRef } from "effect"
+import { useEffectRuntime } from "./useEffectRuntime.js"
+import { createComponentStore } from "../reactive.js"
+
+/**
+ * Updates a SubscriptionRef with a new value or an update function, like React's setState.
+ */
+export type SubscriptionRefSetter<A> = (next: A | ((current: A) => A)) => void
+
+/**
+ * Binds a `SubscriptionRef` — typically held by a service — into a component.
+ *
+ * Where the other hooks keep state per component, a SubscriptionRef lives in
+ * the service layer, so every component bound to it sees the same value:
+ * a service can push changes (e.g. a new balance) and all mounted components
+ * re-render without refresh keys.
+ *
+ * - The current value is read synchronously, so there is no Loading state
+ * - Changes are consumed from `ref.changes` on the provider runtime; the
+ *   subscription is interrupted on unmount or when `ref` changes
+ * - With a selector, the component re-renders only when the selected slice
+ *   changes (compared with `Object.is`)
+ * - The setter runs `SubscriptionRef.set` / `SubscriptionRef.update` on the
+ *   provider runtime, which notifies every subscriber
+ *
+ * Returns `[value, set]`.
+ *
+ * @example
+ * ```tsx
+ * import { useEffectMemo, useSubscriptionRef } from 'effect-react'
+ *
+ * function Balance({ accountId }: { accountId: string }) {
+ *   const repo = useEffectMemo(() => AccountRepository, [])
+ *   const [balance, setBalances] = useSubscriptionRef(
+ *     repo.balances,
+ *     (balances) => balances[accountId],
+ *   )
+ *
+ *   return (
+ *     <button onClick={() => setBalances((b) => ({ ...b, [accountId]: 0 }))}>
+ *       {balance}
+ *     </button>
+ *   )
+ * }
+ * ```
+ */
+export function useSubscriptionRef<A>(
+  ref: SubscriptionRef.SubscriptionRef<A>,
+): [A, SubscriptionRefSetter<A>]
+export function useSubscriptionRef<A, B>(
+  ref: SubscriptionRef.SubscriptionRef<A>,
+  selector: (value: A) => B,
+): [B, SubscriptionRefSetter<A>]
+export function useSubscriptionRef<A, B>(
+  ref: SubscriptionRef.SubscriptionRef<A>,
+  selector?: (value: A) => B,
+): [A | B, SubscriptionRefSetter<A>] {
+  const runtime = useEffectRuntime<never, never>()
+
+  // Component-scoped mirror of the ref, seeded synchronously — one per ref
+  const store = React.useMemo(
+    () => createComponentStore<A>(Effect.runSync(SubscriptionRef.get(ref))),
+    [ref],
+  )
+
+  // Memoize the selected slice per ref value, so getSnapshot stays stable
+  // between changes even when the selector builds a new object.
+  const getSnapshot = React.useMemo(() => {
+    let lastValue: A | undefined
+    let lastSelected: A | B | undefined
+    let hasSelected = false
+    return () => {
+      const value = store.getSnapshot()
+      if (!selector) return value
+      if (!hasSelected || !Object.is(value, lastValue)) {
+        lastValue = value
+        lastSelected = selector(value)
+        hasSelected = true
+      }
+      return lastSelected as B
+    }
+  }, [store, selector])
+
+  // useSyncExternalStore bails out when the selected slice is unchanged
+  const selected = React.useSyncExternalStore(store.subscribe, getSnapshot, getSnapshot)
+
+  React.useEffect(() => {
+    // `changes` emits the current value first, covering updates made
+    // between the synchronous read above and this subscription.
+    const fiber = runtime.runFork(
+      Stream.runForEach(ref.changes, (value) => Effect.sync(() => store.set(value))),
+    )
+
+    return () => {
+      fiber.unsafeInterruptAsFork(fiber.id())
+    }
+  }, [runtime, ref, store])
+
+  const set = React.useCallback<SubscriptionRefSetter<A>>(
+    (next) => {
+      runtime.runFork(
+        typeof next === "function"
+          ? SubscriptionRef.update(ref, next as (current: A) => A)
+          : SubscriptionRef.set(ref, next),
+      )
+    },
+    [runtime, ref],
+  )
+
+  return [selected, set]
+}
@@ -80,21 +80,89 @@ export type {
 } from "react"
 
 // Core types
-export { type EffectResult, Loading, Success, Failure } from "./types.js"
+export {
+  type EffectResult,
+  Loading,
+  Retrying,
+  Success,
+  Refreshing,
+  Stale,
+  Failure,
+  Defect,
+  Interrupted,
+  type ControllableResult,
+  type EffectFailure,
+  type StreamResult,
+  Waiting,
+  Emitting,
+  Done,
+} from "./types.js"
+
+// Cache
+export type { EffectCacheKey, EffectCacheSchema, DehydratedState } from "./cache.js"
+
+// Retry
+export type { RetryOptions } from "./retry.js"
+
+// Optimistic updates
+export type { OptimisticUpdate } from "./optimistic.js"
+
+// Requests
+export { batchAcrossFibers, type RequestCacheOptions } from "./requests.js"
 
 // Provider
 export { EffectProvider, type EffectProviderProps } from "./providers/EffectProvider.js"
+export { EffectScope, type EffectScopeProps } from "./providers/EffectScope.js"
+
+// Typed bindings
+export {
+  createEffectReact,
+  type EffectReact,
+  type EffectReactProviderProps,
+} from "./createEffectReact.js"
+
+// Components
+export {
+  EffectErrorBoundary,
+  type EffectErrorBoundaryProps,
+  type EffectErrorBoundaryCatchTags,
+  type EffectErrorFallbackProps,
+} from "./components/EffectErrorBoundary.js"
 
 // Hooks
 export {
   useRunEffect,
   type UseRunEffectOptions,
+  useRunEffectControls,
+  type UseRunEffectControlsReturn,
+  useRunEffectSuspense,
+  type UseRunEffectSuspenseOptions,
   useEffectState,
   useEffectStateAsync,
+  type UseEffectStateAsyncOptions,
   useService,
   useEffectCallback,
   type UseEffectCallbackReturn,
+  type UseEffectCallbackOptions,
+  type EffectCallbackConcurrency,
+  useEffectForm,
+  type UseEffectFormOptions,
+  type UseEffectFormReturn,
+  type EffectFormErrors,
   useEffectReducer,
+  type UseEffectReducerOptions,
   useEffectMemo,
   useEffectRuntime,
+  useInvalidate,
+  useRequest,
+  type UseRequestOptions,
+  useRequestCache,
+  type RequestCacheControls,
+  useScoped,
+  type UseScopedOptions,
+  useStream,
+  type UseStreamOptions,
+  type StreamFold,
+  useSubscriptionRef,
+  type SubscriptionRefSetter,
 } from "./hooks/index.js"
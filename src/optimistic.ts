@@ -0,0 +1,39 @@
+/**
+ * Optimistic updates of cached effects, applied while a mutation runs.
+ */
+import { Effect, Exit } from "effect"
+import type { EffectCache, EffectCacheKey } from "./cache.js"
+
+/**
+ * Shows `update(value)` in place of the value of every cached effect whose key
+ * starts with `key` — e.g. a balance moved by a transfer that is still running.
+ * Only entries holding a Success are updated.
+ */
+export interface OptimisticUpdate<A = any> {
+  readonly key: EffectCacheKey
+  readonly update: (value: A) => A
+}
+
+/**
+ * Layers the updates returned by `updates` over the cache as soon as `effect`
+ * starts. They are committed if it succeeds — kept until each entry's next
+ * result — and rolled back if it fails or is interrupted.
+ * @internal
+ */
+export function withOptimistic<A, E, R>(
+  effect: Effect.Effect<A, E, R>,
+  cache: EffectCache,
+  updates: () => ReadonlyArray<OptimisticUpdate> | undefined,
+): Effect.Effect<A, E, R> {
+  return Effect.acquireUseRelease(
+    Effect.sync(() => (updates() ?? []).map(({ key, update }) => cache.optimistic(key, update))),
+    () => effect,
+    (layers, exit) =>
+      Effect.sync(() => {
+        for (const layer of layers) {
+          if (Exit.isSuccess(exit)) layer.commit()
+          else layer.rollback()
+        }
+      }),
+  )
+}
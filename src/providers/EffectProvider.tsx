@@ -1,12 +1,81 @@
 import * as React from "react"
-import { ManagedRuntime, Layer, Effect } from "effect"
-import { EffectRuntimeContext } from "../context.js"
+import type { Context, Duration, Request } from "effect"
+import { ManagedRuntime, Layer, Effect, Exit, Cause, Runtime, Scheduler } from "effect"
+import { EffectRuntimeContext, EffectCacheContext, EffectRequestCacheContext } from "../context.js"
+import { type DehydratedState, createEffectCache } from "../cache.js"
+import { type ComponentStore, createComponentStore } from "../reactive.js"
+import type { ProviderDevtools } from "../supervisor.js"
+import { type RequestCacheOptions, makeRequestCache } from "../requests.js"
 
-export interface EffectProviderProps<R, E> {
+export interface EffectProviderProps<R, E, ROut extends R = R, E2 = never> {
   readonly layer: Layer.Layer<R, E, never>
   readonly children: React.ReactNode
+  /**
+   * Keyed results rendered on the server (`renderToStringWithEffects`).
+   * Hooks with a matching key start from Success instead of running their effect.
+   * Only the value from the first render is used, and only until the layer is
+   * rebuilt — a new layer runs the effects again.
+   */
+  readonly dehydratedState?: DehydratedState
+  /**
+   * How long a keyed result nobody uses any more is kept, so a component that
+   * mounts again soon reuses it instead of re-running its effect. Defaults to 5 minutes.
+   * Read once, when the provider mounts.
+   */
+  readonly gcTime?: Duration.DurationInput
+  /**
+   * Builds the layer before rendering children, so their effects start on the
+   * built runtime. Implied by `fallback`, `errorFallback` and `onReady`; without
+   * any of them, children render immediately and their effects wait for the layer.
+   */
+  readonly awaitLayer?: boolean
+  /** Rendered instead of the children while an awaited asynchronous layer is building. */
+  readonly fallback?: React.ReactNode
+  /**
+   * Rendered instead of the children when the layer fails to build.
+   * `retry` rebuilds the layer from scratch. Without it, the failure is thrown
+   * as a `FiberFailure` for the nearest error boundary.
+   */
+  readonly errorFallback?: (cause: Cause.Cause<E | E2>, retry: () => void) => React.ReactNode
+  /** Called with the built services once the layer is ready, before children run their effects. */
+  readonly onReady?: (context: Context.Context<R>) => void
+  /**
+   * Replaces some services of the running layer without rebuilding it.
+   * The override is built from the layer's live service instances, and the
+   * services it provides — a subset of the layer's — take precedence; every
+   * other instance — and its state — is kept. Changing or removing it re-runs
+   * the hooks below against the new services, and refetches keyed results
+   * while keeping them visible.
+   */
+  readonly override?: Layer.Layer<ROut, E2, NoInfer<R>>
+  /**
+   * Gives the provider its own request cache and turns request caching on:
+   * identical `Effect.request`s run under it (see `useRequest`) are resolved
+   * once and reused for `timeToLive`. `useRequestCache()` clears it. The cache
+   * is rebuilt with the layer; nested providers share their parent's.
+   */
+  readonly requestCache?: boolean | RequestCacheOptions
+  /**
+   * Reports the fibers this provider's hooks run to `<EffectDevtools />` — pass
+   * `devtools` from `effect-react/devtools`, e.g. only in development.
+   * Read once, when the provider mounts.
+   */
+  readonly devtools?: () => ProviderDevtools
 }
 
+/**
+ * Build state of a provider's layer. Untracked: the provider does not wait for it.
+ */
+type LayerStatus<R, E> =
+  | { readonly _tag: "Untracked" }
+  | { readonly _tag: "Building" }
+  | { readonly _tag: "Ready"; readonly context: Context.Context<R> }
+  | { readonly _tag: "Failed"; readonly cause: Cause.Cause<E> }
+
+const Building: LayerStatus<never, never> = { _tag: "Building" }
+
+const untrackedStore = createComponentStore<LayerStatus<never, never>>({ _tag: "Untracked" })
+
 /**
  * Provides an Effect runtime to the component tree.
  *
@@ -19,6 +88,31 @@ export interface EffectProviderProps<R, E> {
  * child share the same service objects (shared state). Child services
  * override parent services when they provide the same tag.
  *
+ * Each provider also owns a keyed effect cache (see `useRunEffect`'s `key` option),
+ * created together with its runtime — keyed results are never shared across providers.
+ * The cache outlives `override` swaps, which refetch its results in the background.
+ *
+ * Pass the `dehydratedState` returned by `renderToStringWithEffects` to hydrate
+ * a server-rendered tree without refetching its keyed effects.
+ *
+ * With `awaitLayer`, `fallback`, `errorFallback` or `onReady`, children render
+ * only once the layer is built — synchronous layers are ready on the first
+ * render. While an asynchronous layer builds (opening IndexedDB, fetching
+ * config, ...) the provider renders `fallback`; if it fails,
+ * `errorFallback(cause, retry)`. `onReady` receives the built services.
+ *
+ * **Hot-swapping services:** changing `layer` rebuilds every service, losing
+ * in-memory state. To swap only some services (e.g. a fee policy), pass them as
+ * `override` instead — a layer built on top of the live services. Services that
+ * depend on a swapped one must be part of the override to see the new instance.
+ *
+ * With `requestCache`, the provider owns the cache `Effect.request` consults,
+ * so requests made by its hooks are deduplicated — see `useRequest`.
+ *
+ * With `devtools` from `effect-react/devtools`, the provider also installs a
+ * devtools supervisor in its runtime, which reports the fibers its hooks run
+ * to `<EffectDevtools />`.
+ *
  * The runtime is automatically disposed when the provider unmounts.
  *
  * @example
@@ -28,7 +122,11 @@ export interface EffectProviderProps<R, E> {
  *
  * function App() {
  *   return (
- *     <EffectProvider layer={AppLayer}>
+ *     <EffectProvider
+ *       layer={AppLayer}
+ *       fallback={<Splash />}
+ *       errorFallback={(cause, retry) => <StartupError cause={cause} onRetry={retry} />}
+ *     >
  *       <SharedComponents />
  *       <EffectProvider layer={FeatureLayer}>
  *         {/* Inherits AppLayer service instances + FeatureLayer overrides *\/}
@@ -39,11 +137,21 @@ export interface EffectProviderProps<R, E> {
  * }
  * ```
  */
-export function EffectProvider<R, E>({
+export function EffectProvider<R, E, ROut extends R = R, E2 = never>({
   layer,
   children,
-}: EffectProviderProps<R, E>): React.ReactElement {
+  dehydratedState,
+  gcTime,
+  awaitLayer: awaitLayerProp,
+  fallback,
+  errorFallback,
+  onReady,
+  override,
+  requestCache,
+  devtools: devtoolsProp,
+}: EffectProviderProps<R, E, ROut, E2>): React.ReactElement {
   const parentRuntime = React.useContext(EffectRuntimeContext)
+  const parentRequestCache = React.useContext(EffectRequestCacheContext)
 
   // Store the layer in a ref to protect against unstable inline references.
   // If the user passes `layer={Layer.merge(A, B)}` inline, this prevents
@@ -74,11 +182,144 @@ export function EffectProvider<R, E>({
     [parentRuntime, layer],
   )
 
+  // One supervisor per provider, kept across rebuilds so the devtools history survives them.
+  const devtoolsRef = React.useRef<ProviderDevtools | null>(null)
+  if (devtoolsProp && devtoolsRef.current === null) {
+    devtoolsRef.current = devtoolsProp()
+  }
+  const devtools = devtoolsRef.current
+
+  React.useEffect(() => devtools?.register(), [devtools])
+
+  // Bumped by errorFallback's retry — a new runtime rebuilds the layer.
+  const [buildAttempt, setBuildAttempt] = React.useState(0)
+  const retry = React.useCallback(() => setBuildAttempt((n) => n + 1), [])
+
+  // Cached requests were resolved by the previous services — a rebuilt layer starts a new cache.
+  const requestCacheRef = React.useRef(requestCache)
+  requestCacheRef.current = requestCache
+  const ownsRequestCache = requestCache !== undefined && requestCache !== false
+  const ownRequestCache = React.useMemo(
+    () => (ownsRequestCache ? makeRequestCache(requestCacheRef.current as true | RequestCacheOptions) : null),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [effectiveLayer, buildAttempt, ownsRequestCache],
+  )
+  const activeRequestCache = ownRequestCache ?? parentRequestCache
+
+  const baseRuntime = React.useMemo(
+    () => ManagedRuntime.make(withRequestCache(withDevtools(effectiveLayer, devtools), activeRequestCache)),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [effectiveLayer, buildAttempt, activeRequestCache],
+  )
+
+  // An override runs in its own runtime on top of the base runtime's services:
+  // swapping or removing it rebuilds only the override, never the base layer.
   const runtime = React.useMemo(
-    () => ManagedRuntime.make(effectiveLayer),
-    [effectiveLayer],
+    () => {
+      if (!override) return baseRuntime
+      const baseServices = Layer.effectContext(
+        Effect.map(baseRuntime.runtimeEffect, (rt) => rt.context),
+      )
+      return ManagedRuntime.make(
+        withRequestCache(withDevtools(Layer.provideMerge(override, baseServices), devtools), activeRequestCache),
+      )
+    },
+    [baseRuntime, override, activeRequestCache],
   )
 
+  // When the layer is awaited, start building it right away; synchronous layers finish here.
+  const awaitLayer =
+    awaitLayerProp === true || fallback !== undefined || errorFallback !== undefined || onReady !== undefined
+  const statusStore = React.useMemo(
+    () => (awaitLayer ? buildLayer<R, E | E2>(runtime) : (untrackedStore as ComponentStore<LayerStatus<R, E | E2>>)),
+    [runtime, awaitLayer],
+  )
+  const status = React.useSyncExternalStore(statusStore.subscribe, statusStore.getSnapshot, statusStore.getSnapshot)
+
+  const onReadyRef = React.useRef(onReady)
+  onReadyRef.current = onReady
+
+  // Each runtime's Ready status is a new object, so this fires once per build.
+  // Layout effect: it runs before the children's effects start their fibers.
+  React.useLayoutEffect(() => {
+    if (status._tag === "Ready") {
+      onReadyRef.current?.(status.context)
+    }
+  }, [status])
+
+  // Server-rendered results only describe the first render — later
+  // dehydratedState props are ignored, so keep the initial one, for the
+  // services it was rendered with: a rebuilt layer runs its effects again.
+  const dehydratedStateRef = React.useRef(dehydratedState)
+  const hydratedRuntimeRef = React.useRef(baseRuntime)
+  const gcTimeRef = React.useRef(gcTime)
+
+  // The cache is bound to the base runtime — a rebuilt layer starts with an empty cache.
+  const cache = React.useMemo(() => {
+    const cache = createEffectCache(runtime, { gcTime: gcTimeRef.current })
+    if (dehydratedStateRef.current && baseRuntime === hydratedRuntimeRef.current) {
+      cache.hydrate(dehydratedStateRef.current)
+    }
+    return cache
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [baseRuntime])
+
+  // An override swap keeps the cache: its entries refetch with the new services,
+  // before the children's effects re-run against them.
+  const cachedRuntimeRef = React.useRef({ cache, runtime })
+  React.useLayoutEffect(() => {
+    const cached = cachedRuntimeRef.current
+    cachedRuntimeRef.current = { cache, runtime }
+    if (cached.cache !== cache || cached.runtime === runtime) return
+    cache.setRuntime(runtime)
+    cache.invalidate([])
+  }, [cache, runtime])
+
+  useDisposeWhenInactive(baseRuntime)
+  useDisposeWhenInactive(runtime === baseRuntime ? null : runtime)
+
+  if (status._tag === "Building") {
+    return React.createElement(React.Fragment, null, fallback ?? null)
+  }
+  if (status._tag === "Failed") {
+    if (!errorFallback) {
+      throw Runtime.makeFiberFailure(status.cause)
+    }
+    return React.createElement(React.Fragment, null, errorFallback(status.cause, retry))
+  }
+
+  return React.createElement(
+    EffectRuntimeContext.Provider,
+    { value: runtime as ManagedRuntime.ManagedRuntime<any, any> },
+    React.createElement(
+      EffectCacheContext.Provider,
+      { value: cache },
+      React.createElement(EffectRequestCacheContext.Provider, { value: activeRequestCache }, children),
+    ),
+  )
+}
+
+function withDevtools<R, E>(
+  layer: Layer.Layer<R, E, never>,
+  devtools: ProviderDevtools | null,
+): Layer.Layer<R, E, never> {
+  return devtools ? Layer.merge(layer, devtools.layer) : layer
+}
+
+function withRequestCache<R, E>(
+  layer: Layer.Layer<R, E, never>,
+  requestCache: Request.Cache | null,
+): Layer.Layer<R, E, never> {
+  return requestCache
+    ? Layer.mergeAll(layer, Layer.setRequestCache(requestCache), Layer.setRequestCaching(true))
+    : layer
+}
+
+/**
+ * Disposes a runtime once the provider stops using it — when it is replaced
+ * or the provider unmounts. Pass null when there is no runtime to track.
+ */
+function useDisposeWhenInactive(runtime: ManagedRuntime.ManagedRuntime<any, any> | null): void {
   // Track whether the current runtime is still active.
   // This prevents StrictMode's mount→cleanup→mount cycle from disposing
   // a runtime that will be reused on the second mount.
@@ -87,6 +328,7 @@ export function EffectProvider<R, E>({
 
   React.useEffect(() => {
     const currentRuntime = runtime
+    if (currentRuntime === null) return
     return () => {
       // Only dispose if this runtime is no longer the active one.
       // In StrictMode, the cleanup fires but the same runtime (from useMemo cache)
@@ -111,10 +353,35 @@ export function EffectProvider<R, E>({
       activeRuntimeRef.current = null
     }
   }, [])
+}
 
-  return React.createElement(
-    EffectRuntimeContext.Provider,
-    { value: runtime as ManagedRuntime.ManagedRuntime<any, any> },
-    children,
-  )
+/**
+ * Builds the runtime's layer and tracks its progress in a store.
+ * A layer build interrupted by disposal stays Building — its provider is gone.
+ */
+function buildLayer<R, E>(
+  runtime: ManagedRuntime.ManagedRuntime<R, E>,
+): ComponentStore<LayerStatus<R, E>> {
+  const store = createComponentStore<LayerStatus<R, E>>(Building as LayerStatus<R, E>)
+  // Like ManagedRuntime itself, run the build on a SyncScheduler and flush it,
+  // so a synchronous layer completes before the first render reads the store.
+  const scheduler = new Scheduler.SyncScheduler()
+  const fiber = Effect.runFork(runtime.runtimeEffect, { scheduler })
+  scheduler.flush()
+
+  const settle = (exit: Exit.Exit<Runtime.Runtime<R>, E>) => {
+    if (Exit.isSuccess(exit)) {
+      store.set({ _tag: "Ready", context: exit.value.context })
+    } else if (!Cause.isInterruptedOnly(exit.cause)) {
+      store.set({ _tag: "Failed", cause: exit.cause })
+    }
+  }
+
+  const exit = fiber.unsafePoll()
+  if (exit) {
+    settle(exit)
+  } else {
+    fiber.addObserver(settle)
+  }
+  return store
 }
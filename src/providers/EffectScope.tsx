@@ -0,0 +1,91 @@
+import * as React from "react"
+import type { FiberRef, LogLevel, ManagedRuntime } from "effect"
+import { Effect, Logger } from "effect"
+import { EffectRuntimeContext } from "../context.js"
+import { useEffectRuntime } from "../hooks/useEffectRuntime.js"
+
+export interface EffectScopeProps {
+  /** Log annotations added to every effect in the subtree (`Effect.annotateLogs`). */
+  readonly annotations?: Readonly<Record<string, unknown>>
+  /** Minimum log level for effects in the subtree (`Logger.withMinimumLogLevel`). */
+  readonly logLevel?: LogLevel.LogLevel
+  /** FiberRef values set for effects in the subtree, as `[fiberRef, value]` pairs (`Effect.locally`). */
+  readonly fiberRefs?: ReadonlyArray<readonly [FiberRef.FiberRef<any>, unknown]>
+  readonly children: React.ReactNode
+}
+
+type ScopeSettings = Omit<EffectScopeProps, "children">
+
+/**
+ * Applies log annotations, a minimum log level and FiberRef values to every
+ * effect run by hooks in its subtree.
+ *
+ * No new runtime is built: descendants receive the nearest provider's runtime,
+ * wrapped so each effect runs with the scope's settings. Scopes nest — an inner
+ * scope adds its annotations to the outer one's and wins on conflicts.
+ *
+ * Settings are read when an effect starts, so changing a prop affects the next
+ * runs without restarting running ones. Keyed `useRunEffect` entries are shared
+ * across the whole provider and run with the settings of the provider itself.
+ * A nested `EffectProvider` starts from its own runtime and does not inherit them.
+ *
+ * @example
+ * ```tsx
+ * import { EffectScope } from 'effect-react'
+ * import { LogLevel } from 'effect'
+ *
+ * function TransferScreen({ requestId }: { requestId: string }) {
+ *   return (
+ *     <EffectScope annotations={{ screen: 'transfer', requestId }} logLevel={LogLevel.Debug}>
+ *       <TransferForm />
+ *     </EffectScope>
+ *   )
+ * }
+ * ```
+ */
+export function EffectScope({ children, ...settings }: EffectScopeProps): React.ReactElement {
+  const parent = useEffectRuntime()
+
+  const settingsRef = React.useRef<ScopeSettings>(settings)
+  settingsRef.current = settings
+
+  const runtime = React.useMemo(() => scopeRuntime(parent, () => settingsRef.current), [parent])
+
+  return React.createElement(EffectRuntimeContext.Provider, { value: runtime }, children)
+}
+
+function applySettings<A, E, R>(effect: Effect.Effect<A, E, R>, settings: ScopeSettings): Effect.Effect<A, E, R> {
+  let scoped = effect
+  for (const [fiberRef, value] of settings.fiberRefs ?? []) {
+    scoped = Effect.locally(scoped, fiberRef, value)
+  }
+  if (settings.logLevel !== undefined) {
+    scoped = Logger.withMinimumLogLevel(scoped, settings.logLevel)
+  }
+  if (settings.annotations !== undefined) {
+    scoped = Effect.annotateLogs(scoped, settings.annotations)
+  }
+  return scoped
+}
+
+/**
+ * A view of `parent` whose run methods apply the current settings.
+ * It does not own the parent runtime, so disposing it is a no-op.
+ */
+function scopeRuntime<R, ER>(
+  parent: ManagedRuntime.ManagedRuntime<R, ER>,
+  getSettings: () => ScopeSettings,
+): ManagedRuntime.ManagedRuntime<R, ER> {
+  const scoped = <A, E>(effect: Effect.Effect<A, E, R>) => applySettings(effect, getSettings())
+  // The prototype makes the view usable as an Effect, like the runtime it wraps
+  return Object.assign(Object.create(Object.getPrototypeOf(parent)), parent, {
+    runFork: (effect, options) => parent.runFork(scoped(effect), options),
+    runSyncExit: (effect) => parent.runSyncExit(scoped(effect)),
+    runSync: (effect) => parent.runSync(scoped(effect)),
+    runCallback: (effect, options) => parent.runCallback(scoped(effect), options),
+    runPromise: (effect, options) => parent.runPromise(scoped(effect), options),
+    runPromiseExit: (effect, options) => parent.runPromiseExit(scoped(effect), options),
+    dispose: () => Promise.resolve(),
+    disposeEffect: Effect.void,
+  } satisfies Partial<ManagedRuntime.ManagedRuntime<R, ER>>)
+}
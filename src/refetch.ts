@@ -0,0 +1,54 @@
+/**
+ * Background refetching on a Schedule, shared by the effect hooks.
+ */
+import { Effect, Fiber, type ManagedRuntime, type Schedule } from "effect"
+
+/**
+ * Calls `refresh` on `schedule` — the first time after the schedule's first
+ * delay — waiting for each refresh to finish before the next delay starts.
+ *
+ * Polling pauses while the document is hidden; when it becomes visible again
+ * it refreshes at once and restarts the schedule. Returns a function that stops it.
+ * @internal
+ */
+export function startPolling(
+  runtime: ManagedRuntime.ManagedRuntime<any, any>,
+  schedule: Schedule.Schedule<unknown, unknown, never>,
+  refresh: () => Fiber.RuntimeFiber<unknown, unknown> | null,
+): () => void {
+  const tick = Effect.suspend(() => {
+    const fiber = refresh()
+    return fiber ? Fiber.await(fiber) : Effect.void
+  })
+  const poll = Effect.schedule(tick, schedule)
+
+  let fiber: Fiber.RuntimeFiber<unknown, unknown> | null = null
+  const start = (immediately: boolean) => {
+    fiber = runtime.runFork(immediately ? Effect.zipRight(tick, poll) : poll)
+  }
+  const stop = () => {
+    fiber?.unsafeInterruptAsFork(fiber.id())
+    fiber = null
+  }
+
+  if (typeof document === "undefined") {
+    start(false)
+    return stop
+  }
+
+  const onVisibilityChange = () => {
+    if (document.hidden) {
+      stop()
+    } else if (fiber === null) {
+      start(true)
+    }
+  }
+  if (!document.hidden) {
+    start(false)
+  }
+  document.addEventListener("visibilitychange", onVisibilityChange)
+  return () => {
+    document.removeEventListener("visibilitychange", onVisibilityChange)
+    stop()
+  }
+}
@@ -0,0 +1,168 @@
+/**
+ * Request batching and caching for the effect hooks.
+ *
+ * Effect batches the requests of one fiber: `Effect.forEach(ids, getAccount, { batching: true })`
+ * reaches the resolver once. Hooks run one fiber per component, so requests
+ * made by the components of one render commit would each reach the resolver
+ * on their own. `batchAcrossFibers` collects them into one resolver call.
+ *
+ * A provider with `requestCache` also owns the cache `Effect.request` consults,
+ * so identical requests made under it are resolved once.
+ */
+import { type Context, Effect, Exit, Request, RequestResolver, Runtime, Tracer, type Duration } from "effect"
+
+/**
+ * Sizing of a provider's request cache — see EffectProvider's `requestCache`.
+ */
+export interface RequestCacheOptions {
+  /** Maximum number of cached requests. Defaults to 65536. */
+  readonly capacity?: number
+  /** How long a resolved request stays cached. Defaults to 60 minutes. */
+  readonly timeToLive?: Duration.DurationInput
+}
+
+/**
+ * Creates the request cache of a provider.
+ * @internal
+ */
+export function makeRequestCache(options: RequestCacheOptions | true): Request.Cache {
+  const { capacity = 65536, timeToLive = "60 minutes" } = options === true ? {} : options
+  return Effect.runSync(Request.makeCache({ capacity, timeToLive }))
+}
+
+type RequestExit<A extends Request.Request<any, any>> = Exit.Exit<Request.Request.Success<A>, Request.Request.Error<A>>
+
+interface Caller<A extends Request.Request<any, any>> {
+  readonly requests: ReadonlyArray<A>
+  readonly resume: (exits: Exit.Exit<ReadonlyArray<RequestExit<A>>>) => void
+}
+
+const batchedResolvers = new WeakMap<
+  RequestResolver.RequestResolver<any, any>,
+  RequestResolver.RequestResolver<any, any>
+>()
+
+/**
+ * Wraps `resolver` so that requests from different fibers are resolved together.
+ *
+ * Requests are collected until the task after the first one arrives — long
+ * enough for every hook effect started by one render commit, including those
+ * still waiting for the provider's runtime to build — then resolved
+ * with a single run of `resolver`, e.g. one `getByIds` call for 20 account rows.
+ * Fibers with different services — those of different providers — form separate
+ * batches, each resolved with its own services.
+ * Wrapping the same resolver again returns the same wrapper, so every caller
+ * shares its batches. `useRequest` wraps its resolver this way.
+ *
+ * @example
+ * ```ts
+ * import { batchAcrossFibers } from 'effect-react'
+ *
+ * const AccountResolver = batchAcrossFibers(
+ *   RequestResolver.makeBatched((requests: ReadonlyArray<GetAccount>) =>
+ *     Effect.flatMap(BankApi, (api) => api.getByIds(requests.map((r) => r.id))).pipe(
+ *       Effect.flatMap((accounts) =>
+ *         Effect.forEach(requests, (r, i) => Request.succeed(r, accounts[i]), { discard: true }),
+ *       ),
+ *       Effect.catchAll((error) =>
+ *         Effect.forEach(requests, (r) => Request.fail(r, error), { discard: true }),
+ *       ),
+ *     ),
+ *   ),
+ * )
+ * ```
+ */
+export function batchAcrossFibers<A extends Request.Request<any, any>, R>(
+  resolver: RequestResolver.RequestResolver<A, R>,
+): RequestResolver.RequestResolver<A, R> {
+  const existing = batchedResolvers.get(resolver)
+  if (existing) return existing
+
+  let pending: Array<Batch<A, R>> = []
+
+  const flush = () => {
+    const batches = pending
+    pending = []
+    for (const batch of batches) {
+      resolveBatch(resolver, batch)
+    }
+  }
+
+  const batched = RequestResolver.make<A, R>((batches) => {
+    const requests = batches.flat()
+    return Effect.runtime<R>().pipe(
+      Effect.flatMap((callerRuntime) =>
+        Effect.async<ReadonlyArray<RequestExit<A>>>((resume) => {
+          if (pending.length === 0) {
+            setTimeout(flush, 0)
+          }
+          // Each provider's hooks are resolved with that provider's services
+          let batch = pending.find((b) => sameServices(b.runtime.context, callerRuntime.context))
+          if (!batch) {
+            batch = { runtime: callerRuntime, callers: [] }
+            pending.push(batch)
+          }
+          const caller: Caller<A> = { requests, resume }
+          batch.callers.push(caller)
+          const joined = batch
+          // An interrupted caller leaves the batch, unless it was already sent
+          return Effect.sync(() => {
+            if (!pending.includes(joined)) return
+            joined.callers.splice(joined.callers.indexOf(caller), 1)
+          })
+        }),
+      ),
+      Effect.flatMap((exits) =>
+        Effect.forEach(requests, (request, i) => Request.complete(request, exits[i] as Request.Request.Result<A>), { discard: true }),
+      ),
+    )
+  })
+
+  batchedResolvers.set(resolver, batched)
+  return batched
+}
+
+interface Batch<A extends Request.Request<any, any>, R> {
+  /** Runtime of the first caller — every caller of the batch has the same services. */
+  readonly runtime: Runtime.Runtime<R>
+  readonly callers: Array<Caller<A>>
+}
+
+function resolveBatch<A extends Request.Request<any, any>, R>(
+  resolver: RequestResolver.RequestResolver<A, R>,
+  { runtime, callers }: Batch<A, R>,
+): void {
+  if (callers.length === 0) return
+
+  const requests = callers.flatMap((caller) => caller.requests)
+  // The callers' own requests already sit in the request cache, pending —
+  // looking them up again would wait on themselves.
+  const resolveAll = Effect.forEach(
+    requests,
+    (request) => Effect.exit(Effect.request(request, RequestResolver.contextFromEffect(resolver))),
+    { concurrency: "unbounded", batching: true },
+  ).pipe(Effect.withRequestCaching(false))
+
+  Runtime.runFork(runtime)(resolveAll).addObserver((exit) => {
+    let offset = 0
+    for (const caller of callers) {
+      const start = offset
+      offset += caller.requests.length
+      // A defect or interruption of the batch reaches every caller
+      caller.resume(Exit.map(exit, (exits) => exits.slice(start, offset)))
+    }
+  })
+}
+
+/**
+ * Whether two fibers see the same services. Their contexts differ by the
+ * tracing span each hook runs in even when their provider is the same.
+ */
+function sameServices(a: Context.Context<never>, b: Context.Context<never>): boolean {
+  if (a === b) return true
+  const services = (context: Context.Context<never>) =>
+    [...context.unsafeMap].filter(([key]) => key !== Tracer.ParentSpan.key)
+  const left = services(a)
+  const right = services(b)
+  return left.length === right.length && left.every(([key, service]) => b.unsafeMap.get(key) === service)
+}
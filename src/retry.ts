@@ -0,0 +1,44 @@
+/**
+ * Retry policies shared by the effect hooks.
+ */
+import { Effect, type Schedule } from "effect"
+
+/**
+ * Retries a failed effect according to a Schedule.
+ *
+ * While retrying, hooks report the attempt number in their Loading result —
+ * or the Success a background refetch keeps visible — so the UI can show
+ * e.g. "retrying (2/5)".
+ */
+export interface RetryOptions<E> {
+  /**
+   * Decides whether and when to try again; it receives each typed error.
+   * For example `Schedule.exponential("100 millis").pipe(Schedule.intersect(Schedule.recurs(4)))`
+   * retries up to four times with backoff.
+   */
+  readonly schedule: Schedule.Schedule<unknown, E, never>
+  /** Only errors for which this returns true are retried. Defects are never retried. */
+  readonly while?: (error: E) => boolean
+}
+
+/**
+ * Wraps `effect` in `Effect.retry`, calling `onRetry` with the attempt number
+ * (2 for the first retry) before each retry. The count restarts on every run.
+ * @internal
+ */
+export function withRetry<A, E, R>(
+  effect: Effect.Effect<A, E, R>,
+  retry: RetryOptions<E> | undefined,
+  onRetry: (attempt: number) => void,
+): Effect.Effect<A, E, R> {
+  if (!retry) return effect
+  return Effect.suspend(() => {
+    let attempt = 0
+    const counted = Effect.suspend(() => {
+      attempt++
+      if (attempt > 1) onRetry(attempt)
+      return effect
+    })
+    return Effect.retry(counted, { schedule: retry.schedule, while: retry.while })
+  })
+}
@@ -0,0 +1,86 @@
+/**
+ * effect-react/server: server-side rendering with pre-run effects
+ *
+ * Hooks never run effects on the server (React skips useEffect there), so a
+ * plain `renderToString` only ever renders Loading. This entry renders the
+ * tree repeatedly: every pass collects the keyed `useRunEffect` calls it
+ * reaches, runs them on one runtime, and renders again once they settle —
+ * until a pass reaches no new effects. The successful results are returned
+ * as a dehydrated state for the client's EffectProvider.
+ */
+import * as React from "react"
+import { renderToString } from "react-dom/server"
+import { type Layer, ManagedRuntime } from "effect"
+import { EffectRuntimeContext, EffectCacheContext } from "./context.js"
+import { type DehydratedState, createEffectCache } from "./cache.js"
+
+export type { DehydratedState } from "./cache.js"
+
+export interface RenderToStringWithEffectsOptions<R, E> {
+  /** The layer the client's root EffectProvider is given. */
+  readonly layer: Layer.Layer<R, E, never>
+  /**
+   * Upper bound on render passes. Each pass can only reach effects whose parents
+   * have resolved, so deeply dependent trees need more passes. Defaults to 10.
+   */
+  readonly maxPasses?: number
+}
+
+export interface RenderToStringWithEffectsResult {
+  readonly html: string
+  /** Pass to `<EffectProvider dehydratedState={...}>` when hydrating on the client. */
+  readonly dehydratedState: DehydratedState
+}
+
+const DEFAULT_MAX_PASSES = 10
+
+/**
+ * Renders `element` to HTML after running the keyed effects it needs.
+ *
+ * `element` is the tree *inside* the root EffectProvider — this function provides
+ * the runtime itself, built from `layer`, and disposes it once rendering is done.
+ * Only keyed effects (`useRunEffect(effect, { key })`) are pre-run; others render
+ * Loading and start on the client as usual. Failed effects are not dehydrated,
+ * so the client re-runs them.
+ *
+ * @example
+ * ```tsx
+ * // server
+ * import { renderToStringWithEffects } from 'effect-react/server'
+ *
+ * const { html, dehydratedState } = await renderToStringWithEffects(<App />, { layer: AppLayer })
+ * res.send(page(html, JSON.stringify(dehydratedState)))
+ *
+ * // client
+ * hydrateRoot(
+ *   container,
+ *   <EffectProvider layer={AppLayer} dehydratedState={window.__EFFECT_STATE__}>
+ *     <App />
+ *   </EffectProvider>,
+ * )
+ * ```
+ */
+export async function renderToStringWithEffects<R, E>(
+  element: React.ReactNode,
+  options: RenderToStringWithEffectsOptions<R, E>,
+): Promise<RenderToStringWithEffectsResult> {
+  const runtime = ManagedRuntime.make(options.layer)
+  const cache = createEffectCache(runtime, { server: true })
+  const maxPasses = options.maxPasses ?? DEFAULT_MAX_PASSES
+
+  const tree = React.createElement(
+    EffectRuntimeContext.Provider,
+    { value: runtime as ManagedRuntime.ManagedRuntime<any, any> },
+    React.createElement(EffectCacheContext.Provider, { value: cache }, element),
+  )
+
+  try {
+    let html = renderToString(tree)
+    for (let pass = 1; pass < maxPasses && (await cache.settle()); pass++) {
+      html = renderToString(tree)
+    }
+    return { html, dehydratedState: cache.dehydrate() }
+  } finally {
+    await runtime.dispose()
+  }
+}
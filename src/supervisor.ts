@@ -0,0 +1,211 @@
+/**
+ * Devtools supervisor — a live view of what the hooks are running.
+ *
+ * An EffectProvider given `devtools` (from `effect-react/devtools`) installs a
+ * `DevtoolsSupervisor` in its runtime and registers it here. The supervisor sees
+ * each fiber the hooks fork — from start to exit — and `<EffectDevtools />`
+ * renders the registry.
+ *
+ * Only the devtools entry imports this module; the provider knows it by type alone,
+ * so apps that never import the entry do not bundle it.
+ */
+import { type Context, type Exit, type Fiber, type Layer, Cause, Effect, Option, Supervisor } from "effect"
+import { currentHookRun } from "./tracing.js"
+import { createComponentStore } from "./reactive.js"
+
+/** Exits kept per provider, most recent first. */
+const MAX_EXITS = 50
+
+/**
+ * A fiber forked by a hook (or anything else run on the provider's runtime).
+ * `hook` and `name` are unset for fibers not started by a hook.
+ */
+export interface DevtoolsFiber {
+  readonly id: number
+  readonly hook: string | undefined
+  /** The hook's span name — its `spanName` option, or the hook's name. */
+  readonly name: string | undefined
+  /** Epoch milliseconds. */
+  readonly startedAt: number
+  readonly status: "Running" | "Suspended"
+}
+
+/** A finished fiber and how it ended. */
+export interface DevtoolsExit {
+  readonly id: number
+  readonly hook: string | undefined
+  readonly name: string | undefined
+  readonly startedAt: number
+  /** Epoch milliseconds. */
+  readonly endedAt: number
+  readonly status: "Success" | "Failure" | "Interrupted"
+  /** Set unless the fiber succeeded. */
+  readonly cause: Cause.Cause<unknown> | undefined
+}
+
+/**
+ * What an EffectProvider installs to report to the devtools — one per provider.
+ * Made by `devtools` from `effect-react/devtools`.
+ */
+export interface ProviderDevtools {
+  /** A layer that installs the supervisor in the runtime built from it. */
+  readonly layer: Layer.Layer<never>
+  /** Lists the provider in the devtools until the returned function is called. */
+  register(): () => void
+}
+
+/** The devtools view of one EffectProvider. */
+export interface DevtoolsProvider {
+  readonly id: number
+  /** Keys of the services in the provider's runtime, once a fiber has run. */
+  readonly services: ReadonlyArray<string>
+  readonly fibers: ReadonlyArray<DevtoolsFiber>
+  readonly exits: ReadonlyArray<DevtoolsExit>
+}
+
+interface TrackedFiber {
+  readonly fiber: Fiber.RuntimeFiber<any, any>
+  readonly startedAt: number
+  suspended: boolean
+}
+
+/**
+ * Tracks the root fibers of one provider's runtime. Fibers they fork are
+ * part of their work and are not listed separately.
+ *
+ * Fibers forked before the layer is built start on Effect's default runtime
+ * and only pick up the supervisor once the layer is ready, so `onStart` never
+ * sees them; they are adopted the first time they suspend instead.
+ * @internal
+ */
+export class DevtoolsSupervisor extends Supervisor.AbstractSupervisor<void> implements ProviderDevtools {
+  private static nextId = 0
+
+  readonly id = ++DevtoolsSupervisor.nextId
+  private readonly live = new Map<Fiber.RuntimeFiber<any, any>, TrackedFiber>()
+  /** Child fibers, and root fibers that have ended — never (re-)adopted. */
+  private readonly untracked = new WeakSet<Fiber.RuntimeFiber<any, any>>()
+  private exits: ReadonlyArray<DevtoolsExit> = []
+  private services: ReadonlyArray<string> = []
+
+  get value(): Effect.Effect<void> {
+    return Effect.void
+  }
+
+  override onStart<A, E, R>(
+    context: Context.Context<R>,
+    _effect: Effect.Effect<A, E, R>,
+    parent: Option.Option<Fiber.RuntimeFiber<any, any>>,
+    fiber: Fiber.RuntimeFiber<A, E>,
+  ): void {
+    if (Option.isSome(parent)) {
+      this.untracked.add(fiber)
+      return
+    }
+    this.services = Array.from(context.unsafeMap.keys())
+    this.live.set(fiber, { fiber, startedAt: Date.now(), suspended: false })
+    scheduleNotify()
+  }
+
+  override onEnd<A, E>(exit: Exit.Exit<A, E>, fiber: Fiber.RuntimeFiber<A, E>): void {
+    const tracked = this.live.get(fiber)
+    if (!tracked) return
+    this.live.delete(fiber)
+    this.untracked.add(fiber)
+    const run = fiber.getFiberRef(currentHookRun)
+    const failed = exit._tag === "Failure"
+    const ended: DevtoolsExit = {
+      id: fiber.id().id,
+      hook: run?.hook,
+      name: run?.name,
+      startedAt: tracked.startedAt,
+      endedAt: Date.now(),
+      status: !failed ? "Success" : Cause.isInterruptedOnly(exit.cause) ? "Interrupted" : "Failure",
+      cause: failed ? exit.cause : undefined,
+    }
+    this.exits = [ended, ...this.exits].slice(0, MAX_EXITS)
+    scheduleNotify()
+  }
+
+  override onSuspend<A, E>(fiber: Fiber.RuntimeFiber<A, E>): void {
+    this.setSuspended(fiber, true)
+  }
+
+  override onResume<A, E>(fiber: Fiber.RuntimeFiber<A, E>): void {
+    this.setSuspended(fiber, false)
+  }
+
+  /** A layer that installs this supervisor in the runtime built from it. */
+  get layer(): Layer.Layer<never> {
+    return Supervisor.addSupervisor(this)
+  }
+
+  register(): () => void {
+    return registerDevtools(this)
+  }
+
+  snapshot(): DevtoolsProvider {
+    return {
+      id: this.id,
+      services: this.services,
+      fibers: Array.from(this.live.values(), ({ fiber, startedAt, suspended }) => {
+        const run = fiber.getFiberRef(currentHookRun)
+        return {
+          id: fiber.id().id,
+          hook: run?.hook,
+          name: run?.name,
+          startedAt,
+          status: suspended ? "Suspended" : "Running",
+        }
+      }),
+      exits: this.exits,
+    }
+  }
+
+  private setSuspended(fiber: Fiber.RuntimeFiber<any, any>, suspended: boolean): void {
+    const tracked = this.live.get(fiber)
+    if (tracked === undefined) {
+      if (this.untracked.has(fiber)) return
+      this.live.set(fiber, { fiber, startedAt: Date.now(), suspended })
+      fiber.addObserver((exit) => this.onEnd(exit, fiber))
+      scheduleNotify()
+    } else if (tracked.suspended !== suspended) {
+      tracked.suspended = suspended
+      scheduleNotify()
+    }
+  }
+}
+
+const registered = new Set<DevtoolsSupervisor>()
+
+/**
+ * Snapshot of every registered provider, read by `<EffectDevtools />`.
+ * @internal
+ */
+export const devtoolsStore = createComponentStore<ReadonlyArray<DevtoolsProvider>>([])
+
+let notifyScheduled = false
+
+// Fibers start and end during render and inside other stores' updates —
+// publish once per microtask instead of synchronously.
+function scheduleNotify(): void {
+  if (notifyScheduled) return
+  notifyScheduled = true
+  queueMicrotask(() => {
+    notifyScheduled = false
+    devtoolsStore.set(Array.from(registered, (supervisor) => supervisor.snapshot()))
+  })
+}
+
+/**
+ * Lists a provider's supervisor in the devtools until the returned function is called.
+ * @internal
+ */
+export function registerDevtools(supervisor: DevtoolsSupervisor): () => void {
+  registered.add(supervisor)
+  scheduleNotify()
+  return () => {
+    registered.delete(supervisor)
+    scheduleNotify()
+  }
+}
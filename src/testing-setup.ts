@@ -0,0 +1,13 @@
+/**
+ * effect-react/testing/setup — runs `assertNoLeakedFibers` after each test.
+ *
+ * Add it to the test runner's setup files (vitest's `setupFiles` with
+ * `globals: true`, Jest's `setupFilesAfterEnv`); it needs a global `afterEach`.
+ */
+import { assertNoLeakedFibers } from "./testing.js"
+
+const globalAfterEach = (globalThis as { afterEach?: (fn: () => Promise<void>) => void }).afterEach
+if (typeof globalAfterEach !== "function") {
+  throw new Error("effect-react/testing/setup: no global afterEach — call assertNoLeakedFibers in your own afterEach.")
+}
+globalAfterEach(assertNoLeakedFibers)
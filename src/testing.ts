@@ -0,0 +1,208 @@
+/**
+ * effect-react/testing — rendering helpers for tests of effect-react components.
+ *
+ * Components render under an EffectProvider whose runtime runs on Effect's
+ * TestClock, so `Effect.sleep`, schedules and timeouts only advance when the
+ * test calls `advanceTime`. Every fiber started on that runtime is tracked:
+ * `assertNoLeakedFibers`, run after each test, unmounts the rendered trees and
+ * fails the test if any fiber is still running. Register it in an `afterEach`,
+ * or add `effect-react/testing/setup` to the test runner's setup files.
+ *
+ * Built on @testing-library/react, which must be installed.
+ */
+import * as React from "react"
+import {
+  type RenderHookOptions,
+  type RenderHookResult,
+  type RenderOptions,
+  type RenderResult,
+  act,
+  cleanup,
+  render,
+  renderHook,
+  waitFor,
+} from "@testing-library/react"
+import {
+  type Fiber,
+  type ManagedRuntime,
+  Cause,
+  Duration,
+  Effect,
+  Layer,
+  Supervisor,
+  TestClock,
+  TestContext,
+} from "effect"
+import { EffectProvider } from "./providers/EffectProvider.js"
+import { useEffectRuntime } from "./hooks/useEffectRuntime.js"
+import type { EffectResult } from "./types.js"
+
+/** How long a test's fibers get to finish after unmount before they count as leaked. */
+const LEAK_GRACE_MILLIS = 500
+
+/**
+ * Controls for the test runtime of a rendered tree.
+ */
+export interface EffectTestControls {
+  /**
+   * Moves the TestClock forward, running every sleep and schedule due
+   * in the meantime, and lets React render the results.
+   */
+  readonly advanceTime: (duration: Duration.DurationInput) => Promise<void>
+  /** The runtime the tree's hooks run on. */
+  readonly runtime: () => ManagedRuntime.ManagedRuntime<any, any>
+}
+
+/** Options of `renderWithLayer`: @testing-library/react's, minus `wrapper`. */
+export type RenderWithLayerOptions = Omit<RenderOptions, "queries" | "wrapper">
+
+/** Options of `renderHookWithLayer`: @testing-library/react's, minus `wrapper`. */
+export type RenderHookWithLayerOptions<Props> = Omit<RenderHookOptions<Props>, "queries" | "wrapper">
+
+interface TestHarness {
+  readonly wrapper: React.JSXElementConstructor<{ children: React.ReactNode }>
+  readonly controls: EffectTestControls
+}
+
+/** Fiber trackers of the trees rendered in the current test. */
+const trackers = new Set<Supervisor.Supervisor<Array<Fiber.RuntimeFiber<any, any>>>>()
+
+function makeHarness<R, E>(layer: Layer.Layer<R, E, never>): TestHarness {
+  const tracker = Supervisor.unsafeTrack()
+  trackers.add(tracker)
+  const testLayer: Layer.Layer<R, E, never> = Layer.mergeAll(layer, TestContext.TestContext, Supervisor.addSupervisor(tracker))
+
+  let runtime: ManagedRuntime.ManagedRuntime<any, any> | null = null
+  function CaptureRuntime({ children }: { children: React.ReactNode }) {
+    runtime = useEffectRuntime()
+    return React.createElement(React.Fragment, null, children)
+  }
+
+  // Children render on the built runtime, so every fiber they fork is tracked.
+  const wrapper = ({ children }: { children: React.ReactNode }) =>
+    React.createElement(EffectProvider<R, E>, {
+      layer: testLayer,
+      awaitLayer: true,
+      children: React.createElement(CaptureRuntime, null, children),
+    })
+
+  const currentRuntime = () => {
+    if (runtime === null) {
+      throw new Error("effect-react/testing: the tree has not rendered under its EffectProvider yet.")
+    }
+    return runtime
+  }
+
+  return {
+    wrapper,
+    controls: {
+      runtime: currentRuntime,
+      advanceTime: (duration) =>
+        act(async () => {
+          await currentRuntime().runPromise(TestClock.adjust(duration))
+          // Let the fibers woken by the clock run to their next suspension.
+          await new Promise((resolve) => setTimeout(resolve, 0))
+        }),
+    },
+  }
+}
+
+/**
+ * Renders `ui` under an EffectProvider for `layer`, on a TestClock runtime.
+ *
+ * @example
+ * ```tsx
+ * import { renderWithLayer } from 'effect-react/testing'
+ *
+ * it('shows the balance after the refresh delay', async () => {
+ *   const { getByTestId, advanceTime } = renderWithLayer(<Balance />, BankTestLayer)
+ *   await advanceTime('5 seconds')
+ *   expect(getByTestId('balance').textContent).toBe('100')
+ * })
+ * ```
+ */
+export function renderWithLayer<R, E>(
+  ui: React.ReactNode,
+  layer: Layer.Layer<R, E, never>,
+  options?: RenderWithLayerOptions,
+): RenderResult & EffectTestControls {
+  const { wrapper, controls } = makeHarness(layer)
+  const rendered: RenderResult = render(ui, { ...options, wrapper })
+  return { ...rendered, ...controls }
+}
+
+/**
+ * Renders a hook under an EffectProvider for `layer`, on a TestClock runtime.
+ *
+ * @example
+ * ```ts
+ * import { renderHookWithLayer, waitForSuccess } from 'effect-react/testing'
+ *
+ * it('loads the accounts', async () => {
+ *   const { result } = renderHookWithLayer(() => useRunEffect(getAccounts), BankTestLayer)
+ *   expect(await waitForSuccess(result)).toHaveLength(2)
+ * })
+ * ```
+ */
+export function renderHookWithLayer<Result, Props, R, E>(
+  hook: (props: Props) => Result,
+  layer: Layer.Layer<R, E, never>,
+  options?: RenderHookWithLayerOptions<Props>,
+): RenderHookResult<Result, Props> & EffectTestControls {
+  const { wrapper, controls } = makeHarness(layer)
+  return { ...renderHook(hook, { ...options, wrapper }), ...controls }
+}
+
+/**
+ * Waits until a hook's EffectResult is a Success and returns its value.
+ * Rejects as soon as it is a Failure or Defect, with the pretty-printed Cause.
+ */
+export async function waitForSuccess<A, E>(
+  result: { readonly current: EffectResult<A, E> },
+  options?: { readonly timeout?: number },
+): Promise<A> {
+  const settled = await waitFor(() => {
+    const current = result.current
+    if (current._tag === "Loading") {
+      throw new Error("effect-react/testing: the effect is still loading.")
+    }
+    return current
+  }, options)
+  if (settled._tag === "Success") {
+    return settled.value
+  }
+  throw new Error(`effect-react/testing: expected Success, got ${settled._tag}:\n${Cause.pretty(settled.cause)}`)
+}
+
+/**
+ * Unmounts everything rendered in the current test and fails if any fiber
+ * started on a test runtime is still running shortly after.
+ *
+ * @example
+ * ```ts
+ * import { afterEach } from 'vitest'
+ * import { assertNoLeakedFibers } from 'effect-react/testing'
+ *
+ * afterEach(assertNoLeakedFibers)
+ * ```
+ */
+export async function assertNoLeakedFibers(): Promise<void> {
+  cleanup()
+  const current = Array.from(trackers)
+  trackers.clear()
+
+  const running = () => current.flatMap((tracker) => Effect.runSync(tracker.value))
+  const deadline = Date.now() + LEAK_GRACE_MILLIS
+  while (running().length > 0 && Date.now() < deadline) {
+    await new Promise((resolve) => setTimeout(resolve, 10))
+  }
+
+  const leaked = running()
+  if (leaked.length > 0) {
+    const ids = leaked.map((fiber) => `#${fiber.id().id}`).join(", ")
+    throw new Error(
+      `effect-react/testing: ${leaked.length} fiber(s) still running after unmount (${ids}). ` +
+      "Something forked them outside of a hook's lifecycle, e.g. with Effect.forkDaemon.",
+    )
+  }
+}
@@ -0,0 +1,69 @@
+/**
+ * Tracing spans shared by the effect hooks.
+ *
+ * Every fiber a hook forks runs inside an `Effect.withSpan`, so a tracer
+ * installed by the provider's layer (e.g. `Layer.setTracer(...)` or an
+ * OpenTelemetry layer) records which hook ran which effect, and why.
+ * Without a tracer layer the spans are created by Effect's built-in tracer
+ * and discarded.
+ */
+import { Effect, FiberRef } from "effect"
+
+/**
+ * The hook that forked the current fiber, and the name of its span.
+ * Read by the devtools supervisor to label live fibers.
+ * @internal
+ */
+export interface HookRun {
+  readonly hook: string
+  readonly name: string
+}
+
+/** @internal */
+export const currentHookRun: FiberRef.FiberRef<HookRun | undefined> = FiberRef.unsafeMake<HookRun | undefined>(undefined)
+
+/** Prefix of the span attributes set by the hooks. */
+const ATTRIBUTE_PREFIX = "effect_react."
+
+/**
+ * Wraps a hook-run effect in a span.
+ *
+ * `spanName` defaults to the hook's name; attributes are prefixed with
+ * `effect_react.` and include the hook name. The fiber is also tagged with
+ * `currentHookRun` for the rest of its life.
+ * @internal
+ */
+export function withHookSpan<A, E, R>(
+  effect: Effect.Effect<A, E, R>,
+  hook: string,
+  spanName: string | undefined,
+  attributes?: Record<string, unknown>,
+): Effect.Effect<A, E, R> {
+  const prefixed: Record<string, unknown> = { [`${ATTRIBUTE_PREFIX}hook`]: hook }
+  if (attributes) {
+    for (const [key, value] of Object.entries(attributes)) {
+      if (value !== undefined) {
+        prefixed[`${ATTRIBUTE_PREFIX}${key}`] = value
+      }
+    }
+  }
+  const name = spanName ?? hook
+  return Effect.zipRight(
+    FiberRef.set(currentHookRun, { hook, name }),
+    Effect.withSpan(effect, name, { attributes: prefixed }),
+  )
+}
+
+/**
+ * Best-effort name for a reducer action: its `type` or `_tag` field, or the action itself if it is a string.
+ * @internal
+ */
+export function actionName(action: unknown): string | undefined {
+  if (typeof action === "string") return action
+  if (typeof action === "object" && action !== null) {
+    const { type, _tag } = action as { type?: unknown; _tag?: unknown }
+    if (typeof type === "string") return type
+    if (typeof _tag === "string") return _tag
+  }
+  return undefined
+}
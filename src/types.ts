@@ -1,26 +1,145 @@
 /**
  * Core types for effect-react
  */
+import { Cause, Exit, FiberId, type Option } from "effect"
 
 /**
  * Represents the result of running an Effect.
- * - Loading: Effect is still executing
- * - Success: Effect completed successfully with value A
- * - Failure: Effect failed with error E
+ * - Loading: Effect is still executing; `attempt` is set while a retry policy re-runs it (2 for the first retry)
+ * - Success: Effect completed successfully with value A; `isRefreshing` is set while a background refetch runs for a newer value
+ *   (with `attempt` while a retry policy re-runs it), and `previousDeps` when the value is an earlier run's, kept visible
+ *   while a new one loads (see `keepPreviousData`)
+ * - Failure: Effect failed with error E (`cause` keeps the full Cause, including any defects alongside it)
+ * - Defect: Effect died without a typed error — `Effect.die`, a thrown exception, or a missing service
  */
 export type EffectResult<A, E = never> =
-  | { readonly _tag: "Loading" }
-  | { readonly _tag: "Success"; readonly value: A }
-  | { readonly _tag: "Failure"; readonly error: E }
+  | { readonly _tag: "Loading"; readonly attempt?: number }
+  | {
+      readonly _tag: "Success"
+      readonly value: A
+      readonly isRefreshing?: boolean
+      readonly attempt?: number
+      readonly previousDeps?: ReadonlyArray<unknown>
+    }
+  | { readonly _tag: "Failure"; readonly error: E; readonly cause: Cause.Cause<E> }
+  | { readonly _tag: "Defect"; readonly defect: unknown; readonly cause: Cause.Cause<E> }
 
 export const Loading: EffectResult<never, never> = { _tag: "Loading" }
 
+export const Retrying = (attempt: number): EffectResult<never, never> => ({
+  _tag: "Loading",
+  attempt,
+})
+
 export const Success = <A>(value: A): EffectResult<A, never> => ({
   _tag: "Success",
   value,
 })
 
-export const Failure = <E>(error: E): EffectResult<never, E> => ({
+export const Refreshing = <A>(value: A): EffectResult<A, never> => ({
+  _tag: "Success",
+  value,
+  isRefreshing: true,
+})
+
+export const Stale = <A>(value: A, previousDeps: ReadonlyArray<unknown>): EffectResult<A, never> => ({
+  _tag: "Success",
+  value,
+  isRefreshing: true,
+  previousDeps,
+})
+
+export const Failure = <E>(error: E, cause: Cause.Cause<E> = Cause.fail(error)): EffectResult<never, E> => ({
   _tag: "Failure",
   error,
+  cause,
+})
+
+export const Defect = <E = never>(cause: Cause.Cause<E>): EffectResult<never, E> => ({
+  _tag: "Defect",
+  defect: Cause.squash(cause),
+  cause,
+})
+
+/**
+ * A run cancelled before it completed — see `useRunEffectControls`' `cancel`.
+ */
+export interface Interrupted {
+  readonly _tag: "Interrupted"
+  readonly cause: Cause.Cause<never>
+}
+
+export const Interrupted = (cause: Cause.Cause<never> = Cause.interrupt(FiberId.none)): Interrupted => ({
+  _tag: "Interrupted",
+  cause,
+})
+
+/**
+ * The result of an effect run that can be cancelled: an EffectResult, or Interrupted.
+ */
+export type ControllableResult<A, E = never> = EffectResult<A, E> | Interrupted
+
+/**
+ * Reports a retry on the result being shown: Loading gets the attempt number, and
+ * so does a Success kept visible by a refresh. A failure a poll keeps visible stays as it is.
+ */
+export const withAttempt = <A, E>(current: ControllableResult<A, E>, attempt: number): ControllableResult<A, E> => {
+  switch (current._tag) {
+    case "Loading":
+      return Retrying(attempt)
+    case "Success":
+      return { ...current, attempt }
+    default:
+      return current
+  }
+}
+
+/**
+ * The unsuccessful cases of an EffectResult — a typed Failure or a Defect.
+ */
+export type EffectFailure<E> = Extract<EffectResult<never, E>, { readonly _tag: "Failure" | "Defect" }>
+
+/**
+ * Converts a fiber's Exit into the EffectResult the hooks publish.
+ *
+ * Returns null for interruption-only exits — an interrupted fiber was
+ * superseded or cancelled, so it has no result to show.
+ */
+export const fromExit = <A, E>(exit: Exit.Exit<A, E>): EffectResult<A, E> | null => {
+  if (Exit.isSuccess(exit)) {
+    return Success(exit.value)
+  }
+  if (Cause.isInterruptedOnly(exit.cause)) {
+    return null
+  }
+  const failure = Cause.failureOption(exit.cause)
+  return failure._tag === "Some"
+    ? Failure(failure.value, exit.cause)
+    : Defect(exit.cause)
+}
+
+/**
+ * Represents the state of a running Stream.
+ * - Waiting: no element has been emitted yet
+ * - Emitting: the stream is running; `value` is the latest element (or the fold so far)
+ * - Done: the stream completed; `value` is the last element (or final fold), None if it emitted nothing
+ * - Failure / Defect: the stream failed, as in EffectResult
+ */
+export type StreamResult<A, E = never> =
+  | { readonly _tag: "Waiting" }
+  | { readonly _tag: "Emitting"; readonly value: A }
+  | { readonly _tag: "Done"; readonly value: Option.Option<A> }
+  | { readonly _tag: "Failure"; readonly error: E; readonly cause: Cause.Cause<E> }
+  | { readonly _tag: "Defect"; readonly defect: unknown; readonly cause: Cause.Cause<E> }
+
+export const Waiting: StreamResult<never, never> = { _tag: "Waiting" }
+
+export const Emitting = <A>(value: A): StreamResult<A, never> => ({
+  _tag: "Emitting",
+  value,
+})
+
+export const Done = <A>(value: Option.Option<A>): StreamResult<A, never> => ({
+  _tag: "Done",
+  value,
 })
@@ -1,11 +1,11 @@
 import { defineConfig } from "tsup"
 
 export default defineConfig({
-  entry: ["src/index.ts"],
+  entry: ["src/index.ts", "src/server.ts", "src/testing.ts", "src/testing-setup.ts", "src/devtools.ts"],
   format: ["esm"],
   dts: true,
   sourcemap: true,
   clean: true,
-  external: ["react", "react-dom", "effect"],
+  external: ["react", "react-dom", "effect", "@testing-library/react"],
   treeshake: true,
 })